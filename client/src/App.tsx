@@ -1,7 +1,15 @@
 import JobInputForm from "./components/JobInputForm";
 import Dashboard from "./components/Dashboard";
+import ProfileEditor from "./components/ProfileEditor";
+import SnippetLibrary from "./components/SnippetLibrary";
+import JobPage from "./components/JobPage";
+import HistoryControls from "./components/HistoryControls";
+import ReminderNotifier from "./components/ReminderNotifier";
+import { matchJobPath, usePathname } from "./utils/router";
 
 function App() {
+  const jobId = matchJobPath(usePathname());
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="container mx-auto px-4 py-8">
@@ -18,15 +26,38 @@ function App() {
           </p>
         </header>
 
-        {/* Main Content */}
-        <div className="max-w-4xl mx-auto mb-12">
-          <JobInputForm />
-        </div>
+        {jobId !== null ? (
+          /* Single job, e.g. /jobs/42 */
+          <JobPage jobId={jobId} />
+        ) : (
+          <>
+            {/* Main Content */}
+            <div className="max-w-4xl mx-auto mb-12">
+              <JobInputForm />
+            </div>
+
+            {/* Profile used for match scoring */}
+            <div className="max-w-4xl mx-auto mb-12">
+              <ProfileEditor />
+            </div>
+
+            {/* Reusable proposal paragraphs and their rules */}
+            <div className="max-w-4xl mx-auto mb-12">
+              <SnippetLibrary />
+            </div>
+
+            {/* Dashboard */}
+            <div className="max-w-7xl mx-auto">
+              <Dashboard />
+            </div>
+          </>
+        )}
+
+        {/* Undo toast, undo/redo buttons and keyboard shortcuts */}
+        <HistoryControls />
 
-        {/* Dashboard */}
-        <div className="max-w-7xl mx-auto">
-          <Dashboard />
-        </div>
+        {/* Browser notifications for follow-ups and deadlines */}
+        <ReminderNotifier />
 
         {/* Footer */}
         <footer className="text-center mt-16 text-gray-500 text-sm">
@@ -19,12 +19,20 @@ const baseApi = axios.create({
   timeout: 30000, // 30 seconds
 });
 
-// Apply rate limiting: max 10 requests per minute
-export const api = axiosRateLimit(baseApi, {
+// Rate limiting budget: max 10 requests per minute
+export const RATE_LIMIT = {
   maxRequests: 10,
   perMilliseconds: 60000, // 1 minute
   maxRPS: 1, // max 1 request per second
-});
+} as const;
+
+// Minimum spacing between requests that keeps a long run inside the budget
+export const RATE_LIMIT_INTERVAL_MS = Math.max(
+  RATE_LIMIT.perMilliseconds / RATE_LIMIT.maxRequests,
+  1000 / RATE_LIMIT.maxRPS
+);
+
+export const api = axiosRateLimit(baseApi, RATE_LIMIT);
 
 // Request interceptor
 api.interceptors.request.use(
@@ -76,6 +84,21 @@ api.interceptors.response.use(
   }
 );
 
+// Error thrown by the API helpers. status is null when the request never got
+// a response (offline, server down, timeout).
+export class ApiError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === null;
+
 // Error handler helper
 export const handleApiError = (error: unknown): never => {
   if (axios.isAxiosError(error)) {
@@ -88,22 +111,26 @@ export const handleApiError = (error: unknown): never => {
 
       switch (status) {
         case 400:
-          throw new Error(message || "Bad request");
+          throw new ApiError(message || "Bad request", status);
         case 401:
-          throw new Error("Unauthorized - Please log in");
+          throw new ApiError("Unauthorized - Please log in", status);
         case 403:
-          throw new Error("Forbidden - You don't have permission");
+          throw new ApiError("Forbidden - You don't have permission", status);
         case 404:
-          throw new Error(
-            message || "Job not found - it may have already been deleted"
+          throw new ApiError(
+            message || "Job not found - it may have already been deleted",
+            status
           );
         case 500:
-          throw new Error(message || "Server error - Please try again later");
+          throw new ApiError(
+            message || "Server error - Please try again later",
+            status
+          );
         default:
-          throw new Error(message || `Error: ${status}`);
+          throw new ApiError(message || `Error: ${status}`, status);
       }
     } else if (axiosError.request) {
-      throw new Error("Network error - Please check your connection");
+      throw new ApiError("Network error - Please check your connection", null);
     } else {
       throw new Error(axiosError.message || "An error occurred");
     }
@@ -1,5 +1,7 @@
-import type { Job, JobRequestDto } from "../types/index.js";
-import { api, handleApiError } from "./axios.config";
+import axios from "axios";
+import type { ExtractedJobData, Job, JobRequestDto } from "../types/index.js";
+import { api, ApiError, handleApiError } from "./axios.config";
+import { parseSseEvents } from "../utils/sse";
 
 // Alias for consistency
 const handleError = handleApiError;
@@ -15,6 +17,158 @@ export async function analyzeJob(jobText: string): Promise<Job> {
   }
 }
 
+// The streaming endpoint answers with Server-Sent Events as the model
+// produces each field, then the saved job:
+//   event: field   data: {"field": "title", "value": "Senior React Developer"}
+//   event: job     data: <the saved Job>
+//   event: error   data: {"error": "..."}
+const STREAM_PATH = "/jobs/analyze/stream";
+
+// Give up on a stream that has gone quiet for this long
+const STREAM_IDLE_TIMEOUT_MS = 30000;
+
+// Statuses meaning the server has no streaming endpoint
+const NO_STREAMING_STATUSES = [404, 405, 501];
+
+// The API doesn't stream yet, so analyses only try the streaming endpoint
+// when a deployment says it has one (VITE_ANALYZE_STREAMING=true); a probe
+// would spend a rate-limited request on every first analysis
+let streamingUnavailable = import.meta.env.VITE_ANALYZE_STREAMING !== "true";
+
+class StreamingUnavailableError extends Error {}
+
+// The stream went quiet for too long. The server is still reachable, so
+// unlike a network error this mustn't take the app offline.
+export class StreamTimeoutError extends ApiError {
+  constructor() {
+    super("The analysis took too long to respond - please try again", 408);
+    this.name = "StreamTimeoutError";
+  }
+}
+
+const FIELD_NAMES: (keyof ExtractedJobData)[] = [
+  "title",
+  "company",
+  "skills",
+  "experienceLevel",
+  "location",
+  "salaryRange",
+  "descriptionSummary",
+];
+
+async function streamAnalysis(
+  jobText: string,
+  onFields: (fields: Partial<ExtractedJobData>) => void
+): Promise<Job> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onIdle = () => {
+    timedOut = true;
+    controller.abort();
+  };
+  let idleTimer = setTimeout(onIdle, STREAM_IDLE_TIMEOUT_MS);
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(onIdle, STREAM_IDLE_TIMEOUT_MS);
+  };
+
+  try {
+    let response;
+    try {
+      response = await api.post<ReadableStream<Uint8Array>>(
+        STREAM_PATH,
+        { jobText } as JobRequestDto,
+        {
+          adapter: "fetch",
+          responseType: "stream",
+          // The idle timer replaces the overall timeout
+          timeout: 0,
+          signal: controller.signal,
+          headers: { Accept: "text/event-stream" },
+        }
+      );
+    } catch (error) {
+      if (
+        axios.isAxiosError(error) &&
+        NO_STREAMING_STATUSES.includes(error.response?.status ?? 0)
+      ) {
+        throw new StreamingUnavailableError();
+      }
+      if (timedOut) throw new StreamTimeoutError();
+      return handleError(error);
+    }
+
+    // Anything else (e.g. a dev server's index.html) isn't a stream either
+    const contentType = String(response.headers["content-type"] ?? "");
+    if (!contentType.includes("text/event-stream")) {
+      await response.data.cancel();
+      throw new StreamingUnavailableError();
+    }
+
+    const reader = response.data.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      let chunk;
+      try {
+        chunk = await reader.read();
+      } catch {
+        if (timedOut) throw new StreamTimeoutError();
+        throw new ApiError("The analysis stream was interrupted", null);
+      }
+      if (chunk.done) break;
+      resetIdleTimer();
+
+      const { events, rest } = parseSseEvents(
+        buffer + decoder.decode(chunk.value, { stream: true })
+      );
+      buffer = rest;
+      for (const { event, data } of events) {
+        if (event === "field") {
+          const { field, value } = JSON.parse(data);
+          // Accept the server's PascalCase names as well
+          const name = String(field).charAt(0).toLowerCase() + field.slice(1);
+          if (FIELD_NAMES.includes(name as keyof ExtractedJobData)) {
+            onFields({ [name]: value });
+          }
+        } else if (event === "job") {
+          return JSON.parse(data) as Job;
+        } else if (event === "error") {
+          throw new ApiError(
+            JSON.parse(data).error || "Failed to analyze job posting",
+            500
+          );
+        }
+      }
+    }
+    throw new ApiError("The analysis stream ended before the job", null);
+  } finally {
+    clearTimeout(idleTimer);
+    // Releases the connection if we stopped reading early
+    controller.abort();
+  }
+}
+
+/**
+ * Analyze a job, reporting extracted fields as the server streams them in.
+ * Falls back to the one-shot endpoint when streaming isn't available, in
+ * which case onFields is never called.
+ */
+export async function analyzeJobStreaming(
+  jobText: string,
+  onFields: (fields: Partial<ExtractedJobData>) => void
+): Promise<Job> {
+  if (!streamingUnavailable && typeof ReadableStream !== "undefined") {
+    try {
+      return await streamAnalysis(jobText, onFields);
+    } catch (error) {
+      if (!(error instanceof StreamingUnavailableError)) throw error;
+      streamingUnavailable = true;
+    }
+  }
+  return analyzeJob(jobText);
+}
+
 export async function getJobs(): Promise<Job[]> {
   try {
     const response = await api.get<Job[]>("/jobs");
@@ -0,0 +1,40 @@
+import axios from "axios";
+import { ApiError, handleApiError } from "./axios.config";
+
+// Browsers can't read other sites' pages directly (CORS), so postings are
+// fetched through a proxy. "{url}" in the template is replaced with the
+// encoded page URL; without it the URL is appended.
+export const DEFAULT_PAGE_PROXY: string =
+  import.meta.env.VITE_PAGE_PROXY_URL || "";
+
+export function buildProxyUrl(template: string, pageUrl: string): string {
+  const encoded = encodeURIComponent(pageUrl);
+  return template.includes("{url}")
+    ? template.replace("{url}", encoded)
+    : `${template}${encoded}`;
+}
+
+export async function fetchPageHtml(
+  pageUrl: string,
+  proxyTemplate: string
+): Promise<string> {
+  if (!proxyTemplate.trim()) {
+    throw new Error("Set a proxy URL to import postings from the web");
+  }
+  try {
+    // Plain axios: the proxy is not our API and needs none of its headers
+    const response = await axios.get<string>(
+      buildProxyUrl(proxyTemplate.trim(), pageUrl),
+      { responseType: "text", timeout: 30000 }
+    );
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      throw new ApiError(
+        `Couldn't fetch the page (${error.response.status})`,
+        error.response.status
+      );
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import {
+  useAnalysisQueueStore,
+  type QueueItemStatus,
+} from "../store/useAnalysisQueueStore";
+import DuplicateWarning from "./DuplicateWarning";
+
+const statusStyles: Record<QueueItemStatus, { label: string; color: string }> =
+  {
+    pending: { label: "Queued", color: "bg-gray-100 text-gray-700" },
+    processing: { label: "Analyzing", color: "bg-blue-100 text-blue-800" },
+    pendingSync: {
+      label: "Waiting to sync",
+      color: "bg-amber-100 text-amber-800",
+    },
+    done: { label: "Done", color: "bg-green-100 text-green-800" },
+    failed: { label: "Failed", color: "bg-red-100 text-red-800" },
+    cancelled: { label: "Cancelled", color: "bg-yellow-100 text-yellow-800" },
+    duplicate: {
+      label: "Possible duplicate",
+      color: "bg-yellow-100 text-yellow-800",
+    },
+  };
+
+export default function AnalysisQueue() {
+  const {
+    items,
+    running,
+    cancelRequested,
+    processQueue,
+    cancelQueue,
+    retryItem,
+    retryFailed,
+    analyzeDuplicate,
+    removeItem,
+    clearFinished,
+    getProgress,
+  } = useAnalysisQueueStore();
+  // Possible duplicate shown side by side with the job it matches
+  const [comparingId, setComparingId] = useState<string | null>(null);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const { completed, total } = getProgress();
+  const comparing = items.find(
+    (item) => item.id === comparingId && item.status === "duplicate"
+  );
+  const hasPending = items.some((item) => item.status === "pending");
+  const hasRetryable = items.some(
+    (item) => item.status === "failed" || item.status === "cancelled"
+  );
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">
+          Analysis Queue ({completed}/{total})
+          {cancelRequested && (
+            <span className="ml-2 text-xs text-yellow-700">
+              Stopping after current item...
+            </span>
+          )}
+        </h3>
+        <div className="flex gap-2">
+          {!running && hasPending && (
+            <button
+              type="button"
+              onClick={processQueue}
+              className="px-3 py-1 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Resume
+            </button>
+          )}
+          {running && hasPending && (
+            <button
+              type="button"
+              onClick={cancelQueue}
+              className="px-3 py-1 text-xs bg-yellow-100 text-yellow-800 rounded-lg hover:bg-yellow-200 transition-colors"
+            >
+              Cancel remaining
+            </button>
+          )}
+          {hasRetryable && (
+            <button
+              type="button"
+              onClick={retryFailed}
+              className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Retry failed
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={clearFinished}
+            className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Clear finished
+          </button>
+        </div>
+      </div>
+
+      {/* Overall progress */}
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-blue-600 transition-all duration-300"
+          style={{ width: `${(completed / total) * 100}%` }}
+        ></div>
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            className="flex items-center justify-between gap-2 px-3 py-2 text-sm"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-gray-800">{item.label}</p>
+              {item.error && (
+                <p className="truncate text-xs text-red-600">{item.error}</p>
+              )}
+            </div>
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${
+                statusStyles[item.status].color
+              } ${item.status === "processing" ? "animate-pulse" : ""}`}
+            >
+              {statusStyles[item.status].label}
+            </span>
+            {item.status === "duplicate" && (
+              <button
+                type="button"
+                onClick={() =>
+                  setComparingId(comparingId === item.id ? null : item.id)
+                }
+                className="text-xs text-blue-600 hover:text-blue-800 flex-shrink-0"
+              >
+                {comparingId === item.id ? "Hide" : "Compare"}
+              </button>
+            )}
+            {(item.status === "failed" || item.status === "cancelled") && (
+              <button
+                type="button"
+                onClick={() => retryItem(item.id)}
+                className="text-xs text-blue-600 hover:text-blue-800 flex-shrink-0"
+              >
+                Retry
+              </button>
+            )}
+            {item.status !== "processing" && (
+              <button
+                type="button"
+                onClick={() => removeItem(item.id)}
+                className="text-gray-400 hover:text-gray-600 flex-shrink-0"
+                aria-label={`Remove ${item.label} from queue`}
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {comparing?.duplicates && (
+        <DuplicateWarning
+          key={comparing.id}
+          text={comparing.text}
+          matches={comparing.duplicates}
+          onAnalyzeAnyway={() => {
+            analyzeDuplicate(comparing.id);
+            setComparingId(null);
+          }}
+          onCancel={() => {
+            removeItem(comparing.id);
+            setComparingId(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useJobStore } from "../store/useJobStore";
+import type { Job } from "../types/index.js";
+import { parseTagInput } from "../utils/tags";
+
+interface BulkActionsBarProps {
+  // Current filtered and sorted jobs, for "select all"
+  jobs: Job[];
+}
+
+// Value of the "move to" option that asks for a new collection's name
+const NEW_COLLECTION = "__new__";
+
+export default function BulkActionsBar({ jobs }: BulkActionsBarProps) {
+  const {
+    selectedJobIds,
+    setSelectedJobIds,
+    clearSelection,
+    collections,
+    addTagsToJobs,
+    moveJobsToCollection,
+    createCollection,
+    deleteJobs,
+  } = useJobStore();
+  const [tagInput, setTagInput] = useState("");
+  const [newCollectionName, setNewCollectionName] = useState<string | null>(
+    null
+  );
+
+  const count = selectedJobIds.length;
+  const allSelected = jobs.length > 0 && count >= jobs.length;
+
+  if (count === 0) {
+    return jobs.length > 1 ? (
+      <p className="text-xs text-gray-500">
+        <button
+          type="button"
+          onClick={() => setSelectedJobIds(jobs.map((job) => job.id))}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          Select all {jobs.length}
+        </button>{" "}
+        · tick a card to tag, move, export or delete several jobs at once
+        (shift-click selects a range)
+      </p>
+    ) : null;
+  }
+
+  const handleAddTags = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tags = parseTagInput(tagInput);
+    if (tags.length > 0) addTagsToJobs(selectedJobIds, tags);
+    setTagInput("");
+  };
+
+  const handleMove = (value: string) => {
+    if (value === NEW_COLLECTION) {
+      setNewCollectionName("");
+    } else {
+      moveJobsToCollection(selectedJobIds, value || null);
+    }
+  };
+
+  const handleCreateCollection = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = createCollection(newCollectionName ?? "");
+    if (id) moveJobsToCollection(selectedJobIds, id);
+    setNewCollectionName(null);
+  };
+
+  const inputClass =
+    "px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap p-3 bg-blue-50 rounded-lg border border-blue-200 text-sm">
+      <span className="font-semibold text-blue-900">{count} selected</span>
+      {!allSelected && (
+        <button
+          type="button"
+          onClick={() => setSelectedJobIds(jobs.map((job) => job.id))}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          Select all {jobs.length}
+        </button>
+      )}
+
+      <form onSubmit={handleAddTags} className="flex items-center gap-1">
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          placeholder="tag, another tag"
+          aria-label="Tags to add to the selected jobs"
+          className={`w-36 ${inputClass}`}
+        />
+        <button
+          type="submit"
+          disabled={!tagInput.trim()}
+          className="px-2 py-1 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+        >
+          🏷️ Tag
+        </button>
+      </form>
+
+      {newCollectionName === null ? (
+        <select
+          value=""
+          onChange={(e) => handleMove(e.target.value)}
+          aria-label="Move the selected jobs to a collection"
+          className={inputClass}
+        >
+          <option value="" disabled>
+            📁 Move to...
+          </option>
+          {collections.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+          <option value={NEW_COLLECTION}>+ New collection...</option>
+        </select>
+      ) : (
+        <form
+          onSubmit={handleCreateCollection}
+          className="flex items-center gap-1"
+        >
+          <input
+            autoFocus
+            type="text"
+            value={newCollectionName}
+            onChange={(e) => setNewCollectionName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setNewCollectionName(null)}
+            placeholder="e.g. Q4 shortlist"
+            aria-label="New collection name"
+            className={`w-40 ${inputClass}`}
+          />
+          <button
+            type="submit"
+            className="px-2 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Create & move
+          </button>
+        </form>
+      )}
+
+      {collections.length > 0 && newCollectionName === null && (
+        <button
+          type="button"
+          onClick={() => moveJobsToCollection(selectedJobIds, null)}
+          className="text-gray-600 hover:text-gray-900"
+        >
+          Remove from collection
+        </button>
+      )}
+
+      <div className="ml-auto flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => deleteJobs(selectedJobIds)}
+          className="px-3 py-1 text-red-600 border border-red-200 bg-white rounded-lg hover:bg-red-50"
+        >
+          🗑️ Delete {count}
+        </button>
+        <button
+          type="button"
+          onClick={clearSelection}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          Clear selection
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,42 @@
-import { useEffect, useState } from "react";
-import { useJobStore, type SortField } from "../store/useJobStore";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import {
+  defaultDashboardState,
+  useJobStore,
+  type SortField,
+} from "../store/useJobStore";
+import { useProfileStore } from "../store/useProfileStore";
+import { useProposalStore } from "../store/useProposalStore";
+import { useSkillTaxonomyStore } from "../store/useSkillTaxonomyStore";
+import { scoreJob } from "../utils/matchScore";
+import { evaluateSnippets } from "../utils/snippets";
+import { clusterDuplicates } from "../utils/duplicates";
+import { parseSearchQuery } from "../utils/search";
+import {
+  dashboardToSearch,
+  hasDashboardParams,
+  searchToDashboard,
+} from "../utils/urlState";
+import { matchJobPath } from "../utils/router";
+import type { Job } from "../types/index.js";
 import JobCard from "./JobCard";
+import KanbanBoard from "./KanbanBoard";
+import InsightsView from "./InsightsView";
+import ExportToolbar from "./ExportToolbar";
+import JobImport from "./JobImport";
+import DuplicateGroups from "./DuplicateGroups";
+import SavedViewTabs from "./SavedViewTabs";
+import FilterPanel from "./FilterPanel";
+import BulkActionsBar from "./BulkActionsBar";
+import UpcomingPanel from "./UpcomingPanel";
+
+// URL changes closer together than this replace the last history entry
+// instead of adding one, so typing in a filter box isn't one entry per key
+const HISTORY_COALESCE_MS = 1000;
 
 export default function Dashboard() {
   const {
+    jobs,
     loading,
     error,
     fetchJobs,
@@ -23,33 +56,222 @@ export default function Dashboard() {
     previousPage,
     getPaginatedJobs,
     getFilteredJobs,
+    getSortedJobs,
     getTotalPages,
-  } = useJobStore();
+    setJobStatus,
+    setJobNotes,
+    reanalyzeJob,
+    reanalyzingIds,
+    selectExtractionVersion,
+    viewMode,
+    setViewMode,
+    salaryAssumptions,
+    setSalaryAssumptions,
+    selectedJobIds,
+    toggleJobSelection,
+    setSelectedJobIds,
+    getSelectedJobs,
+    isOnline,
+    syncing,
+    syncQueue,
+    resolveSyncConflict,
+    loadJobBodies,
+    savedViews,
+    getFacetCounts,
+    expandedJobId,
+    setExpandedJobId,
+    applyDashboardState,
+    collections,
+    setJobTags,
+    moveJobsToCollection,
+    setJobDates,
+    renameCollection,
+    deleteCollection,
+  } = useJobStore(
+    // Only what the dashboard shows or calls, so unrelated store updates
+    // don't re-render it
+    useShallow((state) => ({
+      jobs: state.jobs,
+      loading: state.loading,
+      error: state.error,
+      fetchJobs: state.fetchJobs,
+      deleteJob: state.deleteJob,
+      clearError: state.clearError,
+      filters: state.filters,
+      setFilters: state.setFilters,
+      clearFilters: state.clearFilters,
+      sortField: state.sortField,
+      sortOrder: state.sortOrder,
+      setSortField: state.setSortField,
+      toggleSortOrder: state.toggleSortOrder,
+      currentPage: state.currentPage,
+      itemsPerPage: state.itemsPerPage,
+      setItemsPerPage: state.setItemsPerPage,
+      nextPage: state.nextPage,
+      previousPage: state.previousPage,
+      getPaginatedJobs: state.getPaginatedJobs,
+      getFilteredJobs: state.getFilteredJobs,
+      getSortedJobs: state.getSortedJobs,
+      getTotalPages: state.getTotalPages,
+      setJobStatus: state.setJobStatus,
+      setJobNotes: state.setJobNotes,
+      reanalyzeJob: state.reanalyzeJob,
+      reanalyzingIds: state.reanalyzingIds,
+      selectExtractionVersion: state.selectExtractionVersion,
+      viewMode: state.viewMode,
+      setViewMode: state.setViewMode,
+      salaryAssumptions: state.salaryAssumptions,
+      setSalaryAssumptions: state.setSalaryAssumptions,
+      selectedJobIds: state.selectedJobIds,
+      toggleJobSelection: state.toggleJobSelection,
+      setSelectedJobIds: state.setSelectedJobIds,
+      getSelectedJobs: state.getSelectedJobs,
+      isOnline: state.isOnline,
+      syncing: state.syncing,
+      syncQueue: state.syncQueue,
+      resolveSyncConflict: state.resolveSyncConflict,
+      loadJobBodies: state.loadJobBodies,
+      savedViews: state.savedViews,
+      getFacetCounts: state.getFacetCounts,
+      expandedJobId: state.expandedJobId,
+      setExpandedJobId: state.setExpandedJobId,
+      applyDashboardState: state.applyDashboardState,
+      collections: state.collections,
+      setJobTags: state.setJobTags,
+      moveJobsToCollection: state.moveJobsToCollection,
+      setJobDates: state.setJobDates,
+      renameCollection: state.renameCollection,
+      deleteCollection: state.deleteCollection,
+    }))
+  );
+
+  const profile = useProfileStore((state) => state.profile);
+  const skillResolver = useSkillTaxonomyStore((state) => state.getResolver());
+  const snippets = useProposalStore((state) => state.snippets);
 
   const [searchInput, setSearchInput] = useState(filters.searchQuery);
+  // Checkbox clicked last, where a shift-click range starts
+  const lastToggledId = useRef<number | null>(null);
 
+  const searchTerms = parseSearchQuery(filters.searchQuery, skillResolver);
   const paginatedJobs = getPaginatedJobs();
   const filteredJobs = getFilteredJobs();
   const totalPages = getTotalPages();
+  // Clustering compares every pair of jobs, so only redo it when the
+  // filtered list changes
+  const duplicateGroups = useMemo(
+    () => (viewMode === "duplicates" ? clusterDuplicates(filteredJobs) : []),
+    [viewMode, filteredJobs]
+  );
+  const hasProfile =
+    profile.skills.length > 0 ||
+    profile.preferredLocations.length > 0 ||
+    !!profile.targetExperienceLevel ||
+    profile.minimumRate != null;
+  const hasActiveFilters =
+    !!filters.searchQuery ||
+    filters.experienceLevels.length > 0 ||
+    !!filters.location ||
+    filters.locationTypes.length > 0 ||
+    filters.skills.length > 0 ||
+    filters.minSalary != null ||
+    filters.maxSalary != null ||
+    filters.postedWithinDays != null ||
+    filters.tags.length > 0 ||
+    filters.collectionId !== null;
 
+  // Saved jobs load from IndexedDB asynchronously; fetch once they're in so
+  // the server list merges into them instead of being overwritten
+  const [hydrated, setHydrated] = useState(useJobStore.persist.hasHydrated());
   useEffect(() => {
-    fetchJobs();
+    if (useJobStore.persist.hasHydrated()) {
+      setHydrated(true);
+      fetchJobs();
+      return;
+    }
+    return useJobStore.persist.onFinishHydration(() => {
+      setHydrated(true);
+      fetchJobs();
+    });
   }, [fetchJobs]);
 
+  // Posting texts stay in storage until a view needs them: full-text
+  // search, the duplicates view and cards of jobs waiting to be analyzed
+  useEffect(() => {
+    if (!hydrated) return;
+    if (filters.searchQuery.trim() || viewMode === "duplicates") {
+      loadJobBodies();
+      return;
+    }
+    const waiting = jobs
+      .filter((job) => job.bodyPending && job.pendingSync === "analyze")
+      .map((job) => job.id);
+    if (waiting.length > 0) loadJobBodies(waiting);
+  }, [hydrated, filters.searchQuery, viewMode, jobs, loadJobBodies]);
+
+  // Mirror filters, sort, page and the expanded card in the query string so
+  // a view can be shared as a link and back/forward steps through changes
+  useEffect(() => {
+    if (!hydrated) return;
+    const onDashboard = () => matchJobPath(window.location.pathname) === null;
+    const currentSearch = () =>
+      dashboardToSearch(useJobStore.getState(), defaultDashboardState);
+
+    const applyUrl = () => {
+      if (!onDashboard()) return;
+      applyDashboardState(
+        searchToDashboard(window.location.search, defaultDashboardState)
+      );
+    };
+
+    // A shared link wins over whatever was saved locally
+    if (hasDashboardParams(window.location.search)) applyUrl();
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + currentSearch()
+    );
+
+    let lastPushAt = 0;
+    const unsubscribe = useJobStore.subscribe(() => {
+      const search = currentSearch();
+      if (!onDashboard() || search === window.location.search) return;
+      const url = window.location.pathname + search;
+      if (Date.now() - lastPushAt < HISTORY_COALESCE_MS) {
+        window.history.replaceState(null, "", url);
+      } else {
+        window.history.pushState(null, "", url);
+      }
+      lastPushAt = Date.now();
+    });
+    window.addEventListener("popstate", applyUrl);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("popstate", applyUrl);
+    };
+  }, [hydrated, applyDashboardState]);
+
   // Sync search input with filters
   useEffect(() => {
     setSearchInput(filters.searchQuery);
   }, [filters.searchQuery]);
 
-  const handleJobDelete = async (id: number) => {
-    await deleteJob(id);
-  };
-
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    // Sorts by relevance while searching (see setFilters)
     setFilters({ searchQuery: searchInput });
   };
 
+  const handleSalaryBoundChange = (
+    bound: "minSalary" | "maxSalary",
+    value: string
+  ) => {
+    const amount = Number(value);
+    setFilters({
+      [bound]: value === "" || Number.isNaN(amount) ? null : amount,
+    });
+  };
+
   const handleSortChange = (field: SortField) => {
     if (field === sortField) {
       toggleSortOrder();
@@ -58,7 +280,61 @@ export default function Dashboard() {
     }
   };
 
-  if (loading) {
+  const handleToggleSelect = (id: number, extendRange: boolean) => {
+    const ids = getSortedJobs().map((job) => job.id);
+    const from =
+      lastToggledId.current === null ? -1 : ids.indexOf(lastToggledId.current);
+    const to = ids.indexOf(id);
+    lastToggledId.current = id;
+    if (!extendRange || from === -1 || to === -1) {
+      toggleJobSelection(id);
+      return;
+    }
+    const range = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+    setSelectedJobIds([...new Set([...selectedJobIds, ...range])]);
+  };
+
+  const renderJobCard = (job: Job) => (
+    <JobCard
+      key={job.id}
+      job={job}
+      onDelete={deleteJob}
+      onStatusChange={setJobStatus}
+      onNotesChange={setJobNotes}
+      salaryAssumptions={salaryAssumptions}
+      skillResolver={skillResolver}
+      selected={selectedJobIds.includes(job.id)}
+      onToggleSelect={handleToggleSelect}
+      onResolveSyncConflict={resolveSyncConflict}
+      searchTerms={searchTerms}
+      expanded={expandedJobId === job.id}
+      onExpandedChange={(id, expanded) =>
+        setExpandedJobId(expanded ? id : null)
+      }
+      onReanalyze={reanalyzeJob}
+      reanalyzing={reanalyzingIds.includes(job.id)}
+      onSelectVersion={selectExtractionVersion}
+      collections={collections}
+      onTagsChange={setJobTags}
+      onCollectionChange={(id, collectionId) =>
+        moveJobsToCollection([id], collectionId)
+      }
+      match={
+        hasProfile
+          ? scoreJob(job, profile, salaryAssumptions, skillResolver)
+          : undefined
+      }
+      onDatesChange={setJobDates}
+      // Only the expanded card shows which snippets fire
+      snippetResults={
+        expandedJobId === job.id && job.extracted
+          ? evaluateSnippets(snippets, job.extracted, skillResolver)
+          : undefined
+      }
+    />
+  );
+
+  if (loading || !hydrated) {
     return (
       <div className="flex justify-center items-center py-12">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -80,10 +356,28 @@ export default function Dashboard() {
     </div>
   );
 
+  // Offline mode and queued changes
+  const pendingCount = syncQueue.length;
+  const syncNotification = (!isOnline || syncing) && (
+    <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+      {syncing
+        ? `🔄 Syncing ${pendingCount} queued ${pendingCount === 1 ? "change" : "changes"}...`
+        : `📴 You're offline. ${
+            pendingCount > 0
+              ? `${pendingCount} queued ${pendingCount === 1 ? "change" : "changes"} will sync when the connection is back.`
+              : "New analyses and deletes will be queued until the connection is back."
+          }`}
+    </div>
+  );
+
   const NoJobsMessage = () => (
     <div>
       {/* Error notification */}
       {errorNotification}
+      {syncNotification}
+
+      {/* Keep saved views reachable when the current one matches nothing */}
+      {savedViews.length > 0 && <SavedViewTabs />}
 
       <div className="text-center py-12">
         <svg
@@ -100,16 +394,16 @@ export default function Dashboard() {
           />
         </svg>
         <h3 className="mt-2 text-sm font-medium text-gray-900">
-          {filteredJobs.length === 0 && filters.searchQuery
+          {filteredJobs.length === 0 && hasActiveFilters
             ? "No jobs match your search"
             : "No jobs analyzed yet"}
         </h3>
         <p className="mt-1 text-sm text-gray-500">
-          {filteredJobs.length === 0 && filters.searchQuery
+          {filteredJobs.length === 0 && hasActiveFilters
             ? "Try adjusting your search or filters"
             : "Get started by analyzing your first job posting above."}
         </p>
-        {filteredJobs.length === 0 && filters.searchQuery && (
+        {filteredJobs.length === 0 && hasActiveFilters && (
           <button
             type="button"
             onClick={clearFilters}
@@ -118,6 +412,11 @@ export default function Dashboard() {
             Clear Filters
           </button>
         )}
+        {!hasActiveFilters && (
+          <div className="mt-4">
+            <JobImport />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -130,29 +429,69 @@ export default function Dashboard() {
     <div>
       {/* Error notification */}
       {errorNotification}
+      {syncNotification}
 
-      {/* Header with count and refresh */}
+      {/* Header with count, view toggle and refresh */}
       <div className="mb-6 flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">
           Analyzed Jobs ({filteredJobs.length})
         </h2>
-        <button
-          type="button"
-          onClick={fetchJobs}
-          className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
-        >
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg bg-gray-100 p-1">
+            {(
+              [
+                { mode: "grid", label: "Grid" },
+                { mode: "board", label: "Board" },
+                { mode: "duplicates", label: "Duplicates" },
+                { mode: "insights", label: "Insights" },
+              ] as const
+            ).map(({ mode, label }) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setViewMode(mode)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  viewMode === mode
+                    ? "bg-white text-blue-600 shadow"
+                    : "text-gray-700 hover:text-gray-900"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <JobImport />
+          <button
+            type="button"
+            onClick={fetchJobs}
+            className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
       </div>
 
       {/* Search and Filters */}
       <div className="mb-6 space-y-4">
+        <UpcomingPanel />
+
+        <SavedViewTabs />
+
+        <ExportToolbar
+          jobs={getSortedJobs()}
+          selectedJobs={getSelectedJobs()}
+          loadJobBodies={loadJobBodies}
+        />
+
+        <BulkActionsBar jobs={getSortedJobs()} />
+
         <form onSubmit={handleSearch} className="flex gap-2">
           <input
             type="text"
             value={searchInput}
             onChange={(e) => setSearchInput(e.target.value)}
-            placeholder="Search jobs by title, company, skills..."
+            placeholder='Search jobs, e.g. skill:react company:acme "remote first" -php'
+            title='Field filters: title:, company:, skill:, summary:, text:. Quote phrases, prefix a term with "-" to exclude it.'
             className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
           <button
@@ -161,7 +500,7 @@ export default function Dashboard() {
           >
             Search
           </button>
-          {filters.searchQuery && (
+          {hasActiveFilters && (
             <button
               type="button"
               onClick={clearFilters}
@@ -173,64 +512,189 @@ export default function Dashboard() {
         </form>
 
         {/* Sort Controls */}
-        <div className="flex items-center gap-4 flex-wrap">
-          <span className="text-sm font-medium text-gray-700">Sort by:</span>
+        {(viewMode === "grid" || viewMode === "board") && (
+          <div className="flex items-center gap-4 flex-wrap">
+            <span className="text-sm font-medium text-gray-700">Sort by:</span>
+            {(
+              [
+                ...(filters.searchQuery.trim()
+                  ? [{ field: "relevance", label: "Relevance" } as const]
+                  : []),
+                { field: "createdAt", label: "Date" },
+                { field: "title", label: "Title" },
+                { field: "company", label: "Company" },
+                { field: "experienceLevel", label: "Experience" },
+                { field: "salary", label: "Salary" },
+                { field: "match", label: "Best match" },
+              ] as const
+            ).map(({ field, label }) => (
+              <button
+                key={field}
+                type="button"
+                onClick={() => handleSortChange(field)}
+                className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                  sortField === field
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {label}
+                {sortField === field && (
+                  <span className="ml-1">
+                    {sortOrder === "asc" ? "↑" : "↓"}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Experience, location and skill facets */}
+        <FilterPanel
+          filters={filters}
+          facetCounts={getFacetCounts()}
+          onChange={setFilters}
+          collections={collections}
+          onRenameCollection={renameCollection}
+          onDeleteCollection={deleteCollection}
+        />
+
+        {/* Recency filter */}
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-sm font-medium text-gray-700">Analyzed:</span>
           {(
             [
-              { field: "createdAt", label: "Date" },
-              { field: "title", label: "Title" },
-              { field: "company", label: "Company" },
-              { field: "experienceLevel", label: "Experience" },
+              { days: null, label: "All time" },
+              { days: 7, label: "Last 7 days" },
+              { days: 30, label: "Last 30 days" },
+              { days: 90, label: "Last 90 days" },
             ] as const
-          ).map(({ field, label }) => (
+          ).map(({ days, label }) => (
             <button
-              key={field}
+              key={label}
               type="button"
-              onClick={() => handleSortChange(field)}
+              onClick={() => setFilters({ postedWithinDays: days })}
               className={`px-3 py-1 text-sm rounded-lg transition-colors ${
-                sortField === field
+                filters.postedWithinDays === days
                   ? "bg-blue-600 text-white"
                   : "bg-gray-100 text-gray-700 hover:bg-gray-200"
               }`}
             >
               {label}
-              {sortField === field && (
-                <span className="ml-1">{sortOrder === "asc" ? "↑" : "↓"}</span>
-              )}
             </button>
           ))}
         </div>
 
-        {/* Items per page */}
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-gray-700">Show:</span>
-          {[10, 20, 50].map((count) => (
-            <button
-              key={count}
-              type="button"
-              onClick={() => setItemsPerPage(count)}
-              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
-                itemsPerPage === count
-                  ? "bg-blue-600 text-white"
-                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
-              }`}
-            >
-              {count}
-            </button>
-          ))}
-          <span className="text-sm text-gray-700">per page</span>
+        {/* Salary range filter (annualized) */}
+        <div className="flex items-center gap-2 flex-wrap text-sm text-gray-700">
+          <span className="font-medium">Annual salary:</span>
+          <input
+            type="number"
+            min={0}
+            value={filters.minSalary ?? ""}
+            onChange={(e) =>
+              handleSalaryBoundChange("minSalary", e.target.value)
+            }
+            placeholder="Min"
+            aria-label="Minimum annual salary"
+            className="w-28 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <span>–</span>
+          <input
+            type="number"
+            min={0}
+            value={filters.maxSalary ?? ""}
+            onChange={(e) =>
+              handleSalaryBoundChange("maxSalary", e.target.value)
+            }
+            placeholder="Max"
+            aria-label="Maximum annual salary"
+            className="w-28 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <details className="ml-2">
+            <summary className="cursor-pointer text-gray-500 hover:text-gray-700">
+              Assumptions
+            </summary>
+            <div className="mt-2 flex items-center gap-2 flex-wrap">
+              {(
+                [
+                  { key: "hoursPerDay", label: "hours/day" },
+                  { key: "daysPerWeek", label: "days/week" },
+                  { key: "weeksPerYear", label: "weeks/year" },
+                ] as const
+              ).map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={1}
+                    value={salaryAssumptions[key]}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (value > 0) setSalaryAssumptions({ [key]: value });
+                    }}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </details>
         </div>
+
+        {/* Items per page */}
+        {viewMode === "grid" && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-700">Show:</span>
+            {[10, 20, 50].map((count) => (
+              <button
+                key={count}
+                type="button"
+                onClick={() => setItemsPerPage(count)}
+                className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                  itemsPerPage === count
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {count}
+              </button>
+            ))}
+            <span className="text-sm text-gray-700">per page</span>
+          </div>
+        )}
       </div>
 
+      {/* Insights over the filtered corpus */}
+      {viewMode === "insights" && (
+        <InsightsView
+          jobs={filteredJobs}
+          salaryAssumptions={salaryAssumptions}
+          skillResolver={skillResolver}
+        />
+      )}
+
+      {/* Application pipeline board */}
+      {viewMode === "board" && (
+        <KanbanBoard jobs={getSortedJobs()} onStatusChange={setJobStatus} />
+      )}
+
       {/* Job Cards Grid */}
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 mb-6 items-start">
-        {paginatedJobs.map((job) => (
-          <JobCard key={job.id} job={job} onDelete={handleJobDelete} />
-        ))}
-      </div>
+      {viewMode === "grid" && (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 mb-6 items-start">
+          {paginatedJobs.map(renderJobCard)}
+        </div>
+      )}
+
+      {/* Possible duplicates, clustered by text, title and company */}
+      {viewMode === "duplicates" && (
+        <DuplicateGroups
+          groups={duplicateGroups}
+          renderJobCard={renderJobCard}
+        />
+      )}
 
       {/* Pagination */}
-      {totalPages > 1 && (
+      {viewMode === "grid" && totalPages > 1 && (
         <div className="flex justify-center items-center gap-4">
           <button
             type="button"
@@ -0,0 +1,41 @@
+import type { ReactNode } from "react";
+import type { Job } from "../types/index.js";
+
+interface DuplicateGroupsProps {
+  groups: Job[][];
+  renderJobCard: (job: Job) => ReactNode;
+}
+
+export default function DuplicateGroups({
+  groups,
+  renderJobCard,
+}: DuplicateGroupsProps) {
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-12 text-sm text-gray-500">
+        No possible duplicates among the jobs shown.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 mb-6">
+      {groups.map((group) => (
+        <section
+          key={group[0].id}
+          className="p-4 bg-white/60 rounded-2xl border border-yellow-200"
+        >
+          <h3 className="mb-4 text-sm font-semibold text-gray-700">
+            {group.length} possible duplicates of{" "}
+            <span className="text-gray-900">
+              {group[0].extracted?.title} at {group[0].extracted?.company}
+            </span>
+          </h3>
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 items-start">
+            {group.map(renderJobCard)}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import type { SimilarJob } from "../utils/duplicates";
+
+interface DuplicateWarningProps {
+  text: string;
+  matches: SimilarJob[];
+  onAnalyzeAnyway: () => void;
+  onCancel: () => void;
+}
+
+export default function DuplicateWarning({
+  text,
+  matches,
+  onAnalyzeAnyway,
+  onCancel,
+}: DuplicateWarningProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const { job, similarity } =
+    matches[Math.min(selectedIndex, matches.length - 1)];
+
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm text-yellow-800">
+          ⚠️ This listing looks like{" "}
+          {matches.length === 1
+            ? "a job you already analyzed"
+            : `${matches.length} jobs you already analyzed`}
+          .
+        </p>
+        {matches.length > 1 && (
+          <div className="flex gap-1 flex-shrink-0">
+            {matches.map((match, index) => (
+              <button
+                key={match.job.id}
+                type="button"
+                onClick={() => setSelectedIndex(index)}
+                className={`px-2 py-0.5 text-xs rounded ${
+                  index === selectedIndex
+                    ? "bg-yellow-600 text-white"
+                    : "bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+                }`}
+              >
+                {Math.round(match.similarity * 100)}%
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Side-by-side comparison */}
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="min-w-0">
+          <h5 className="text-xs font-semibold text-gray-700 mb-1">
+            New listing
+          </h5>
+          <pre className="h-48 overflow-y-auto p-2 bg-white border border-gray-200 rounded text-xs text-gray-700 whitespace-pre-wrap font-sans">
+            {text}
+          </pre>
+        </div>
+        <div className="min-w-0">
+          <h5 className="text-xs font-semibold text-gray-700 mb-1 truncate">
+            {job.extracted?.title} at {job.extracted?.company} —{" "}
+            {Math.round(similarity * 100)}% similar
+          </h5>
+          <pre className="h-48 overflow-y-auto p-2 bg-white border border-gray-200 rounded text-xs text-gray-700 whitespace-pre-wrap font-sans">
+            {job.originalText}
+          </pre>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onAnalyzeAnyway}
+          className="px-4 py-2 text-sm bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+        >
+          Analyze anyway
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { Job } from "../types/index.js";
+import { EXPORT_FORMATS, exportJobs } from "../utils/export";
+
+interface ExportToolbarProps {
+  // Current filtered and sorted jobs
+  jobs: Job[];
+  selectedJobs: Job[];
+  // Resolves to the given jobs with their full text loaded
+  loadJobBodies: (ids: number[]) => Promise<Job[]>;
+}
+
+export default function ExportToolbar({
+  jobs,
+  selectedJobs,
+  loadJobBodies,
+}: ExportToolbarProps) {
+  const hasSelection = selectedJobs.length > 0;
+  // Jobs still being analyzed have nothing to export yet
+  const exportable = (hasSelection ? selectedJobs : jobs).filter(
+    (job) => job.extracted
+  );
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap p-3 bg-white/70 rounded-lg border border-gray-200">
+      <span className="text-sm font-medium text-gray-700">
+        Export{" "}
+        {hasSelection
+          ? `${exportable.length} selected`
+          : `all ${exportable.length}`}
+        :
+      </span>
+      {EXPORT_FORMATS.map(({ value, label }) => (
+        <button
+          key={value}
+          type="button"
+          onClick={async () =>
+            exportJobs(
+              await loadJobBodies(exportable.map((job) => job.id)),
+              value
+            )
+          }
+          disabled={exportable.length === 0}
+          className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
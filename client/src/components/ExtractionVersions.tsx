@@ -0,0 +1,151 @@
+import { useState } from "react";
+import type { Job } from "../types/index.js";
+import { diffExtractions } from "../utils/extractionDiff";
+
+interface ExtractionVersionsProps {
+  job: Job;
+  onSelectVersion: (id: number, index: number) => void;
+}
+
+const versionLabel = (index: number) => `v${index + 1}`;
+
+export default function ExtractionVersions({
+  job,
+  onSelectVersion,
+}: ExtractionVersionsProps) {
+  const versions = job.extractionVersions ?? [];
+  const activeIndex = job.activeVersion ?? versions.length - 1;
+  const [picked, setPicked] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  if (versions.length < 2) return null;
+
+  // Compare against the newest other version unless one was picked
+  const otherIndex =
+    picked !== null && picked !== activeIndex && versions[picked]
+      ? picked
+      : activeIndex === versions.length - 1
+        ? versions.length - 2
+        : versions.length - 1;
+  const diffs = diffExtractions(
+    versions[activeIndex].extracted,
+    versions[otherIndex].extracted
+  );
+  const changedCount = diffs.filter((diff) => diff.changed).length;
+  const shownDiffs = showUnchanged ? diffs : diffs.filter((d) => d.changed);
+
+  return (
+    <div>
+      <h4 className="font-semibold text-gray-900 text-sm mb-3 flex items-center gap-2">
+        <span>🔄</span>
+        <span>Analysis Versions</span>
+      </h4>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {versions.map((version, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => index !== activeIndex && setPicked(index)}
+            title={new Date(version.analyzedAt).toLocaleString()}
+            className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
+              index === activeIndex
+                ? "bg-green-100 border-green-300 text-green-800 font-semibold"
+                : index === otherIndex
+                  ? "bg-indigo-100 border-indigo-300 text-indigo-800"
+                  : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50"
+            }`}
+          >
+            {versionLabel(index)} ·{" "}
+            {new Date(version.analyzedAt).toLocaleDateString()}
+            {index === activeIndex && " · in use"}
+          </button>
+        ))}
+      </div>
+
+      <div className="rounded-lg border border-gray-200 overflow-hidden">
+        <div className="grid grid-cols-[6rem_1fr_1fr] gap-2 px-3 py-2 bg-gray-50 text-xs font-semibold text-gray-600">
+          <span>Field</span>
+          <span>{versionLabel(activeIndex)} (in use)</span>
+          <span>{versionLabel(otherIndex)}</span>
+        </div>
+        {shownDiffs.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-gray-500 italic">
+            Both versions extracted the same data.
+          </p>
+        ) : (
+          shownDiffs.map((diff) => (
+            <div
+              key={diff.field}
+              className={`grid grid-cols-[6rem_1fr_1fr] gap-2 px-3 py-2 border-t border-gray-100 text-xs ${
+                diff.changed ? "bg-amber-50" : ""
+              }`}
+            >
+              <span className="font-semibold text-gray-700">{diff.label}</span>
+              {diff.field === "skills" && diff.changed ? (
+                <>
+                  <span className="text-gray-700">
+                    {diff.before || "—"}
+                    {diff.removedSkills.length > 0 && (
+                      <span className="block mt-1 text-red-600">
+                        only here: {diff.removedSkills.join(", ")}
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-gray-700">
+                    {diff.after || "—"}
+                    {diff.addedSkills.length > 0 && (
+                      <span className="block mt-1 text-green-700">
+                        only here: {diff.addedSkills.join(", ")}
+                      </span>
+                    )}
+                  </span>
+                </>
+              ) : (
+                <>
+                  <span className="text-gray-700 whitespace-pre-wrap line-clamp-6">
+                    {diff.before || "—"}
+                  </span>
+                  <span className="text-gray-700 whitespace-pre-wrap line-clamp-6">
+                    {diff.after || "—"}
+                  </span>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+        <span className="text-gray-500">
+          {changedCount} of {diffs.length} fields differ
+        </span>
+        {changedCount < diffs.length && (
+          <button
+            type="button"
+            onClick={() => setShowUnchanged(!showUnchanged)}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            {showUnchanged ? "Hide unchanged" : "Show unchanged"}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            onSelectVersion(job.id, otherIndex);
+            setPicked(null);
+          }}
+          className="ml-auto px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+        >
+          Use {versionLabel(otherIndex)}
+        </button>
+      </div>
+      {job.editedFields && job.editedFields.length > 0 && (
+        <p className="mt-2 text-xs text-purple-700">
+          ✎ Fields corrected by hand stay as they are whichever version is in
+          use.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import type {
+  FacetCounts,
+  JobCollection,
+  JobFilters,
+  SkillMatchMode,
+} from "../store/useJobStore";
+import { EXPERIENCE_LEVELS } from "../utils/experience";
+import { LOCATION_TYPES } from "../utils/location";
+
+interface FilterPanelProps {
+  filters: JobFilters;
+  facetCounts: FacetCounts;
+  onChange: (filters: Partial<JobFilters>) => void;
+  collections?: JobCollection[];
+  onRenameCollection?: (id: string, name: string) => void;
+  onDeleteCollection?: (id: string) => void;
+}
+
+// Skills listed before the user starts typing in the skill picker
+const TOP_SKILL_COUNT = 12;
+
+// Add the value if missing, remove it if present
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+
+export default function FilterPanel({
+  filters,
+  facetCounts,
+  onChange,
+  collections = [],
+  onRenameCollection,
+  onDeleteCollection,
+}: FilterPanelProps) {
+  const [skillQuery, setSkillQuery] = useState("");
+  const [renamingCollection, setRenamingCollection] = useState(false);
+
+  const activeCollection = collections.find(
+    (c) => c.id === filters.collectionId
+  );
+
+  const query = skillQuery.trim().toLowerCase();
+  const skillOptions = facetCounts.skills
+    .filter(({ label }) => !filters.skills.includes(label))
+    .filter(({ label }) => !query || label.toLowerCase().includes(query))
+    .slice(0, query ? undefined : TOP_SKILL_COUNT);
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-full border transition-colors ${
+      active
+        ? "bg-blue-600 text-white border-blue-600"
+        : "bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+    }`;
+
+  return (
+    <details className="p-3 bg-white/70 rounded-lg border border-gray-200">
+      <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+        Filters
+        {(filters.experienceLevels.length > 0 ||
+          filters.locationTypes.length > 0 ||
+          filters.skills.length > 0 ||
+          filters.tags.length > 0 ||
+          !!filters.collectionId ||
+          !!filters.location) && (
+          <span className="ml-2 text-xs text-blue-600">active</span>
+        )}
+      </summary>
+
+      <div className="mt-3 space-y-4">
+        {/* Collections */}
+        {collections.length > 0 && (
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm font-medium text-gray-700 w-24">
+              Collection:
+            </span>
+            {collections.map((c) => (
+              <button
+                key={c.id}
+                type="button"
+                aria-pressed={filters.collectionId === c.id}
+                onClick={() =>
+                  onChange({
+                    collectionId: filters.collectionId === c.id ? null : c.id,
+                  })
+                }
+                className={chipClass(filters.collectionId === c.id)}
+              >
+                📁 {c.name}{" "}
+                <span className="opacity-70">
+                  ({facetCounts.collections[c.id] ?? 0})
+                </span>
+              </button>
+            ))}
+            {activeCollection &&
+              (renamingCollection ? (
+                <input
+                  autoFocus
+                  defaultValue={activeCollection.name}
+                  onBlur={(e) => {
+                    onRenameCollection?.(activeCollection.id, e.target.value);
+                    setRenamingCollection(false);
+                  }}
+                  onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                  aria-label="Collection name"
+                  className="w-40 px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              ) : (
+                <span className="flex gap-2 text-sm">
+                  {onRenameCollection && (
+                    <button
+                      type="button"
+                      onClick={() => setRenamingCollection(true)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Rename
+                    </button>
+                  )}
+                  {onDeleteCollection && (
+                    <button
+                      type="button"
+                      onClick={() => onDeleteCollection(activeCollection.id)}
+                      title="The jobs stay, just without a collection"
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      Delete collection
+                    </button>
+                  )}
+                </span>
+              ))}
+          </div>
+        )}
+
+        {/* Tags */}
+        {(facetCounts.tags.length > 0 || filters.tags.length > 0) && (
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm font-medium text-gray-700 w-24">
+              Tags:
+            </span>
+            {filters.tags
+              .filter(
+                (tag) => !facetCounts.tags.some(({ label }) => label === tag)
+              )
+              .map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => onChange({ tags: toggle(filters.tags, tag) })}
+                  className={chipClass(true)}
+                >
+                  #{tag} <span className="opacity-70">(0)</span>
+                </button>
+              ))}
+            {facetCounts.tags.map(({ label, count }) => (
+              <button
+                key={label}
+                type="button"
+                aria-pressed={filters.tags.includes(label)}
+                onClick={() => onChange({ tags: toggle(filters.tags, label) })}
+                className={chipClass(filters.tags.includes(label))}
+              >
+                #{label} <span className="opacity-70">({count})</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Experience levels */}
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-sm font-medium text-gray-700 w-24">
+            Experience:
+          </span>
+          {EXPERIENCE_LEVELS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              aria-pressed={filters.experienceLevels.includes(value)}
+              onClick={() =>
+                onChange({
+                  experienceLevels: toggle(filters.experienceLevels, value),
+                })
+              }
+              className={chipClass(filters.experienceLevels.includes(value))}
+            >
+              {label}{" "}
+              <span className="opacity-70">
+                ({facetCounts.experienceLevels[value]})
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {/* Location */}
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-sm font-medium text-gray-700 w-24">
+            Location:
+          </span>
+          {LOCATION_TYPES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              aria-pressed={filters.locationTypes.includes(value)}
+              onClick={() =>
+                onChange({
+                  locationTypes: toggle(filters.locationTypes, value),
+                })
+              }
+              className={chipClass(filters.locationTypes.includes(value))}
+            >
+              {label}{" "}
+              <span className="opacity-70">
+                ({facetCounts.locationTypes[value]})
+              </span>
+            </button>
+          ))}
+          <input
+            type="text"
+            value={filters.location}
+            onChange={(e) => onChange({ location: e.target.value })}
+            placeholder="City, country..."
+            aria-label="Location contains"
+            className="w-40 px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {/* Skills */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm font-medium text-gray-700 w-24">
+              Skills:
+            </span>
+            {filters.skills.map((skill) => (
+              <button
+                key={skill}
+                type="button"
+                onClick={() =>
+                  onChange({ skills: toggle(filters.skills, skill) })
+                }
+                className={chipClass(true)}
+                aria-label={`Remove ${skill}`}
+              >
+                {skill} ✕
+              </button>
+            ))}
+            {filters.skills.length > 1 && (
+              <div className="flex text-xs border border-gray-300 rounded-lg overflow-hidden">
+                {(
+                  [
+                    { value: "any", label: "Any of these" },
+                    { value: "all", label: "All of these" },
+                  ] as { value: SkillMatchMode; label: string }[]
+                ).map(({ value, label }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => onChange({ skillMatch: value })}
+                    className={`px-2 py-1 ${
+                      filters.skillMatch === value
+                        ? "bg-blue-600 text-white"
+                        : "bg-white text-gray-700 hover:bg-gray-100"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2 flex-wrap pl-26">
+            <input
+              type="text"
+              value={skillQuery}
+              onChange={(e) => setSkillQuery(e.target.value)}
+              placeholder="Find a skill..."
+              aria-label="Find a skill"
+              className="w-40 px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            {skillOptions.map(({ label, count }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => {
+                  onChange({ skills: [...filters.skills, label] });
+                  setSkillQuery("");
+                }}
+                className={chipClass(false)}
+              >
+                {label} <span className="opacity-70">({count})</span>
+              </button>
+            ))}
+            {skillOptions.length === 0 && (
+              <span className="text-sm text-gray-500">No matching skills</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </details>
+  );
+}
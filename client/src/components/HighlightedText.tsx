@@ -0,0 +1,33 @@
+import {
+  splitHighlights,
+  type SearchField,
+  type SearchTerm,
+} from "../utils/search";
+
+interface HighlightedTextProps {
+  text: string;
+  terms: SearchTerm[];
+  field: SearchField;
+  markClassName?: string;
+}
+
+export default function HighlightedText({
+  text,
+  terms,
+  field,
+  markClassName = "bg-yellow-200 text-inherit rounded-sm",
+}: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text, terms, field).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className={markClassName}>
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useJobStore } from "../store/useJobStore";
+
+// How long "Undid ..." stays on screen after an undo or redo
+const NOTICE_MS = 3000;
+
+const isMac =
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+const modKey = isMac ? "⌘" : "Ctrl+";
+
+// Text fields keep the browser's own undo
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export default function HistoryControls() {
+  const { undoStack, redoStack, undo, redo, pendingDeletion, undoDeleteJobs } =
+    useJobStore();
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const lastUndo = undoStack.at(-1);
+  const lastRedo = redoStack.at(-1);
+
+  // Undo/redo with a confirmation of what was changed back
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditable(e.target)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      const { undoStack, redoStack } = useJobStore.getState();
+      if (key === "z" && !e.shiftKey && undoStack.length > 0) {
+        e.preventDefault();
+        setNotice(`Undid: ${undoStack.at(-1)!.label}`);
+        undo();
+      } else if (
+        ((key === "z" && e.shiftKey) || key === "y") &&
+        redoStack.length > 0
+      ) {
+        e.preventDefault();
+        setNotice(`Redid: ${redoStack.at(-1)!.label}`);
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const buttonClass =
+    "px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <>
+      {/* Deletes wait for this toast before reaching the server */}
+      {pendingDeletion ? (
+        <div
+          role="status"
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 bg-gray-900 text-white text-sm rounded-lg shadow-lg"
+        >
+          <span>
+            Deleted {pendingDeletion.length}{" "}
+            {pendingDeletion.length === 1 ? "job" : "jobs"}
+          </span>
+          <button
+            type="button"
+            onClick={undoDeleteJobs}
+            className="font-semibold text-blue-300 hover:text-blue-200"
+          >
+            Undo
+          </button>
+        </div>
+      ) : (
+        notice && (
+          <div
+            role="status"
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 px-4 py-3 bg-gray-900 text-white text-sm rounded-lg shadow-lg"
+          >
+            {notice}
+          </div>
+        )
+      )}
+
+      {(lastUndo || lastRedo) && (
+        <div className="fixed bottom-6 right-6 z-40 flex bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden divide-x divide-gray-200">
+          <button
+            type="button"
+            onClick={() => {
+              setNotice(`Undid: ${lastUndo!.label}`);
+              undo();
+            }}
+            disabled={!lastUndo}
+            title={lastUndo ? `Undo ${lastUndo.label} (${modKey}Z)` : undefined}
+            aria-label="Undo"
+            className={buttonClass}
+          >
+            ↶ Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setNotice(`Redid: ${lastRedo!.label}`);
+              redo();
+            }}
+            disabled={!lastRedo}
+            title={
+              lastRedo
+                ? `Redo ${lastRedo.label} (${modKey}${isMac ? "⇧Z" : "Y"})`
+                : undefined
+            }
+            aria-label="Redo"
+            className={buttonClass}
+          >
+            ↷ Redo
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
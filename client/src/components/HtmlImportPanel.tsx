@@ -0,0 +1,289 @@
+import { useState } from "react";
+import type { ExtractedJobData } from "../types/index.js";
+import { fetchPageHtml } from "../api/pages";
+import { useImportSettingsStore } from "../store/useImportSettingsStore";
+import {
+  composeListingText,
+  extractPostingFromHtml,
+  isHtmlFile,
+  type HtmlExtraction,
+  type PostingPrefill,
+} from "../utils/htmlImport";
+import { hasEnoughCoverage } from "../utils/jobPosting";
+
+interface HtmlImportPanelProps {
+  analyzing: boolean;
+  // Send the composed listing for analysis, with the page's structured
+  // data if any; resolves true once analyzed
+  onAnalyze: (
+    listing: string,
+    structured: ExtractedJobData | null
+  ) => Promise<boolean>;
+  // Continue in the plain text box instead
+  onEditAsText: (listing: string) => void;
+}
+
+const PREFILL_FIELDS: { key: keyof PostingPrefill; label: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "company", label: "Company" },
+  { key: "location", label: "Location" },
+  { key: "salary", label: "Salary" },
+];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+export default function HtmlImportPanel({
+  analyzing,
+  onAnalyze,
+  onEditAsText,
+}: HtmlImportPanelProps) {
+  const { proxyUrl, setProxyUrl } = useImportSettingsStore();
+  const [url, setUrl] = useState("");
+  const [html, setHtml] = useState("");
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [extraction, setExtraction] = useState<HtmlExtraction | null>(null);
+  const [prefill, setPrefill] = useState<PostingPrefill | null>(null);
+  const [body, setBody] = useState("");
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const extract = (source: string) => {
+    const result = extractPostingFromHtml(source);
+    if (!result.text && !result.prefill.title) {
+      setError("No posting found in that page");
+      return;
+    }
+    setError(null);
+    setExtraction(result);
+    setPrefill(result.prefill);
+    setBody(result.text);
+  };
+
+  const handleFetch = async () => {
+    if (!url.trim()) return;
+    setFetching(true);
+    setError(null);
+    try {
+      const page = await fetchPageHtml(url.trim(), proxyUrl);
+      setHtml(page);
+      extract(page);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch page");
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const handleFile = async (files: FileList | null) => {
+    const file = files && Array.from(files).find(isHtmlFile);
+    if (!file) {
+      if (files && files.length > 0) setError("Choose an .html file");
+      return;
+    }
+    const page = await file.text();
+    setHtml(page);
+    extract(page);
+  };
+
+  const reset = () => {
+    setExtraction(null);
+    setPrefill(null);
+    setBody("");
+  };
+
+  const handleAnalyze = async (
+    listing: string,
+    structured: ExtractedJobData | null
+  ) => {
+    if (await onAnalyze(listing, structured)) {
+      reset();
+      setHtml("");
+      setUrl("");
+    }
+  };
+
+  if (extraction && prefill) {
+    const listing = composeListingText(prefill, body);
+    // Corrections to the prefilled fields apply to the structured data too
+    const structured = extraction.structured && {
+      ...extraction.structured,
+      title: prefill.title.trim(),
+      company: prefill.company.trim(),
+      location: prefill.location.trim(),
+      salaryRange: prefill.salary.trim(),
+    };
+    const skipsAi = structured !== null && hasEnoughCoverage(structured);
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          {extraction.structured
+            ? "Fields below came from the page's structured job data."
+            : "Fields below were guessed from the page."}{" "}
+          Check them before analyzing.
+          {skipsAi &&
+            " The structured data covers the posting, so no AI call is needed and the job is kept in this browser only."}
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {PREFILL_FIELDS.map(({ key, label }) => (
+            <label key={key} className="block text-xs text-gray-600">
+              {label}
+              <input
+                type="text"
+                value={prefill[key]}
+                onChange={(e) =>
+                  setPrefill({ ...prefill, [key]: e.target.value })
+                }
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          ))}
+        </div>
+        <label className="block text-xs text-gray-600">
+          Posting
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className={`${inputClass} mt-1 h-48 resize-none`}
+          />
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => handleAnalyze(listing, structured)}
+            disabled={analyzing || !body.trim()}
+            className="flex-1 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {analyzing
+              ? "Analyzing..."
+              : skipsAi
+                ? "Save from Structured Data"
+                : "Analyze Job Posting"}
+          </button>
+          {skipsAi && (
+            <button
+              type="button"
+              onClick={() => handleAnalyze(listing, null)}
+              disabled={analyzing || !body.trim()}
+              className="px-4 py-3 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            >
+              Analyze with AI
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onEditAsText(listing)}
+            className="px-4 py-3 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Edit as text
+          </button>
+          <button
+            type="button"
+            onClick={reset}
+            className="px-4 py-3 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleFetch();
+            }
+          }}
+          placeholder="https://example.com/jobs/123"
+          aria-label="Posting URL"
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={handleFetch}
+          disabled={fetching || !url.trim() || !proxyUrl.trim()}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+        >
+          {fetching ? "Fetching..." : "Fetch"}
+        </button>
+      </div>
+
+      <details open={!proxyUrl.trim()} className="text-xs text-gray-600">
+        <summary className="cursor-pointer">Fetch proxy</summary>
+        <input
+          type="text"
+          value={proxyUrl}
+          onChange={(e) => setProxyUrl(e.target.value)}
+          placeholder="https://proxy.example.com/?url={url}"
+          aria-label="Fetch proxy URL"
+          className={`${inputClass} mt-1 font-mono`}
+        />
+        <p className="mt-1">
+          Pages are fetched through this proxy; {"{url}"} is replaced with the
+          page address.
+        </p>
+      </details>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>Or paste the page's HTML, or drop a saved .html file</span>
+        <label className="px-3 py-1 bg-gray-100 rounded-lg cursor-pointer hover:bg-gray-200 transition-colors">
+          Choose file
+          <input
+            type="file"
+            accept=".html,.htm,text/html"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      <textarea
+        value={html}
+        onChange={(e) => {
+          setHtml(e.target.value);
+          if (error) setError(null);
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragOver(false);
+          handleFile(e.dataTransfer.files);
+        }}
+        placeholder="<html>...</html>"
+        aria-label="Posting HTML"
+        className={`${inputClass} h-32 resize-none font-mono ${
+          isDragOver ? "ring-2 ring-blue-500 bg-blue-50" : ""
+        }`}
+      />
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => extract(html)}
+        disabled={!html.trim()}
+        className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+      >
+        Extract Posting
+      </button>
+    </div>
+  );
+}
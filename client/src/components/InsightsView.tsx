@@ -0,0 +1,210 @@
+import type { Job } from "../types/index.js";
+import {
+  getExperienceDistribution,
+  getLocationDistribution,
+  getSalaryBySkill,
+  getSkillCooccurrence,
+  getSkillTrend,
+  getTopCompanies,
+  type CountEntry,
+} from "../utils/insights";
+import { formatSalaryAmount, type SalaryAssumptions } from "../utils/salary";
+import type { SkillResolver } from "../utils/skillTaxonomy";
+
+interface InsightsViewProps {
+  jobs: Job[];
+  salaryAssumptions?: SalaryAssumptions;
+  skillResolver?: SkillResolver;
+}
+
+function InsightCard({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="bg-white shadow-lg rounded-2xl p-4 sm:p-6">
+      <h3 className="font-semibold text-gray-900 mb-4">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function BarList({ entries }: { entries: CountEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No data yet</p>;
+  }
+
+  const max = Math.max(...entries.map((e) => e.count));
+  return (
+    <ul className="space-y-2">
+      {entries.map(({ label, count }) => (
+        <li key={label} className="text-sm">
+          <div className="flex justify-between mb-1">
+            <span className="text-gray-700 truncate">{label}</span>
+            <span className="text-gray-500 ml-2">{count}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-blue-500 to-indigo-500"
+              style={{ width: `${(count / max) * 100}%` }}
+            ></div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function InsightsView({
+  jobs,
+  salaryAssumptions,
+  skillResolver,
+}: InsightsViewProps) {
+  const analyzedJobs = jobs.filter((job) => job.extracted);
+  const trend = getSkillTrend(analyzedJobs, skillResolver);
+  const salaryBySkill = getSalaryBySkill(
+    analyzedJobs,
+    skillResolver,
+    salaryAssumptions
+  );
+  const cooccurrence = getSkillCooccurrence(analyzedJobs, skillResolver);
+  const maxTrendCount = Math.max(
+    1,
+    ...trend.series.flatMap((series) => series.counts)
+  );
+
+  return (
+    <div className="space-y-6 mb-6">
+      <p className="text-sm text-gray-600">
+        Based on {analyzedJobs.length} analyzed{" "}
+        {analyzedJobs.length === 1 ? "job" : "jobs"} matching the current
+        filters.
+      </p>
+
+      {/* Skill demand over time */}
+      <InsightCard title="🛠️ Most-demanded skills by month">
+        {trend.series.length === 0 ? (
+          <p className="text-sm text-gray-500">No data yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-sm w-full">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-gray-500 pr-4 pb-2">
+                    Skill
+                  </th>
+                  {trend.periods.map((period) => (
+                    <th
+                      key={period}
+                      className="font-medium text-gray-500 px-2 pb-2 whitespace-nowrap"
+                    >
+                      {new Date(`${period}-01T00:00:00`).toLocaleDateString(
+                        undefined,
+                        { month: "short", year: "2-digit" }
+                      )}
+                    </th>
+                  ))}
+                  <th className="font-medium text-gray-500 pl-2 pb-2">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trend.series.map(({ skill, counts, total }) => (
+                  <tr key={skill}>
+                    <td className="pr-4 py-1 text-gray-700 whitespace-nowrap">
+                      {skill}
+                    </td>
+                    {counts.map((count, index) => (
+                      <td key={trend.periods[index]} className="px-2 py-1">
+                        <div
+                          className="h-6 min-w-8 rounded text-center text-xs leading-6 text-blue-900"
+                          style={{
+                            backgroundColor: `rgba(59, 130, 246, ${
+                              count === 0
+                                ? 0.05
+                                : 0.15 + (count / maxTrendCount) * 0.65
+                            })`,
+                          }}
+                        >
+                          {count || ""}
+                        </div>
+                      </td>
+                    ))}
+                    <td className="pl-2 py-1 text-center text-gray-600">
+                      {total}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </InsightCard>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <InsightCard title="💼 Experience level">
+          <BarList entries={getExperienceDistribution(analyzedJobs)} />
+        </InsightCard>
+
+        <InsightCard title="📍 Location">
+          <BarList entries={getLocationDistribution(analyzedJobs)} />
+        </InsightCard>
+
+        <InsightCard title="🏢 Companies posting most often">
+          <BarList entries={getTopCompanies(analyzedJobs)} />
+        </InsightCard>
+
+        <InsightCard title="🔗 Skills that appear together">
+          <BarList
+            entries={cooccurrence.map(({ skills, count }) => ({
+              label: `${skills[0]} + ${skills[1]}`,
+              count,
+            }))}
+          />
+        </InsightCard>
+      </div>
+
+      {/* Salary by skill */}
+      <InsightCard title="💰 Annual salary by skill">
+        {salaryBySkill.skills.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No jobs with a parseable salary
+          </p>
+        ) : (
+          <table className="text-sm w-full">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium pb-2">Skill</th>
+                <th className="font-medium pb-2">Jobs</th>
+                <th className="font-medium pb-2">Min</th>
+                <th className="font-medium pb-2">Median</th>
+                <th className="font-medium pb-2">Max</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-700">
+              {salaryBySkill.skills.map(
+                ({ skill, count, min, median, max }) => (
+                  <tr key={skill} className="border-t border-gray-100">
+                    <td className="py-1">{skill}</td>
+                    <td className="py-1">{count}</td>
+                    <td className="py-1">
+                      {formatSalaryAmount(min, salaryBySkill.currency)}
+                    </td>
+                    <td className="py-1 font-medium">
+                      {formatSalaryAmount(median, salaryBySkill.currency)}
+                    </td>
+                    <td className="py-1">
+                      {formatSalaryAmount(max, salaryBySkill.currency)}
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        )}
+      </InsightCard>
+    </div>
+  );
+}
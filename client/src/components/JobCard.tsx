@@ -1,13 +1,107 @@
 import { useState } from "react";
-import type { Job } from "../types/index.js";
+import type { ApplicationStatus, Job } from "../types/index.js";
+import {
+  APPLICATION_STATUSES,
+  getJobStatus,
+  getStatusColor,
+  getStatusLabel,
+} from "../utils/applicationStatus";
+import {
+  annualizeSalary,
+  formatAnnualSalary,
+  parseSalary,
+  type SalaryAssumptions,
+} from "../utils/salary";
+import { getMatchColor, type JobMatch } from "../utils/matchScore";
+import {
+  defaultSkillResolver,
+  getSkillCategoryColor,
+  type SkillResolver,
+} from "../utils/skillTaxonomy";
+import { parseSummarySections } from "../utils/summary";
+import type { SearchField, SearchTerm } from "../utils/search";
+import { jobPath, navigate } from "../utils/router";
+import { parseTagInput } from "../utils/tags";
+import type { JobCollection } from "../store/useJobStore";
+import { describeCondition, type SnippetResult } from "../utils/snippets";
+import {
+  endOfLocalDay,
+  formatDueIn,
+  fromDateTimeInput,
+  toDateTimeInput,
+} from "../utils/reminders";
+import HighlightedText from "./HighlightedText";
+import ExtractionVersions from "./ExtractionVersions";
 
 interface JobCardProps {
   job: Job;
   onDelete: (id: number) => void;
+  onStatusChange: (id: number, status: ApplicationStatus) => void;
+  onNotesChange: (id: number, notes: string) => void;
+  salaryAssumptions?: SalaryAssumptions;
+  match?: JobMatch;
+  skillResolver?: SkillResolver;
+  selected?: boolean;
+  // extendRange: shift-click, selecting everything since the last click
+  onToggleSelect?: (id: number, extendRange: boolean) => void;
+  onResolveSyncConflict?: (id: number, resolution: "retry" | "discard") => void;
+  // Terms of the active search, highlighted in the card
+  searchTerms?: SearchTerm[];
+  // Controlled expansion; the card manages it itself when these are omitted
+  expanded?: boolean;
+  onExpandedChange?: (id: number, expanded: boolean) => void;
+  // Run the analysis again and pick between the resulting versions
+  onReanalyze?: (id: number) => void;
+  reanalyzing?: boolean;
+  onSelectVersion?: (id: number, index: number) => void;
+  collections?: JobCollection[];
+  onTagsChange?: (id: number, tags: string[]) => void;
+  onCollectionChange?: (id: number, collectionId: string | null) => void;
+  // Proposal snippets evaluated against this job, for the preview
+  snippetResults?: SnippetResult[];
+  onDatesChange?: (
+    id: number,
+    dates: Partial<Pick<Job, "deadline" | "followUpAt">>
+  ) => void;
 }
 
-export default function JobCard({ job, onDelete }: JobCardProps) {
-  const [isExpanded, setIsExpanded] = useState(false);
+export default function JobCard({
+  job,
+  onDelete,
+  onStatusChange,
+  onNotesChange,
+  salaryAssumptions,
+  match,
+  skillResolver = defaultSkillResolver,
+  selected = false,
+  onToggleSelect,
+  onResolveSyncConflict,
+  searchTerms = [],
+  expanded,
+  onExpandedChange,
+  onReanalyze,
+  reanalyzing = false,
+  onSelectVersion,
+  collections = [],
+  onTagsChange,
+  onCollectionChange,
+  snippetResults,
+  onDatesChange,
+}: JobCardProps) {
+  const [localExpanded, setLocalExpanded] = useState(false);
+  const isExpanded = expanded ?? localExpanded;
+  const setExpanded = (value: boolean) =>
+    onExpandedChange
+      ? onExpandedChange(job.id, value)
+      : setLocalExpanded(value);
+  const [notesInput, setNotesInput] = useState(job.notes ?? "");
+  // Follow notes changed elsewhere (undo/redo, another view of the job)
+  const [previousNotes, setPreviousNotes] = useState(job.notes);
+  if (job.notes !== previousNotes) {
+    setPreviousNotes(job.notes);
+    setNotesInput(job.notes ?? "");
+  }
+  const [tagInput, setTagInput] = useState("");
 
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent card expansion when clicking delete
@@ -16,59 +110,191 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
 
   const toggleExpand = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent event bubbling
-    setIsExpanded((prev) => !prev);
+    setExpanded(!isExpanded);
+  };
+
+  const handleNotesBlur = () => {
+    if (notesInput !== (job.notes ?? "")) {
+      onNotesChange(job.id, notesInput);
+    }
+  };
+
+  const addTags = () => {
+    const tags = parseTagInput(tagInput);
+    if (tags.length > 0) onTagsChange?.(job.id, [...(job.tags ?? []), ...tags]);
+    setTagInput("");
   };
 
+  const collection = collections.find((c) => c.id === job.collectionId);
+
   const extracted = job.extracted;
+  const status = getJobStatus(job);
+  const parsedSalary = parseSalary(job.extracted?.salaryRange);
+  const skills = skillResolver.canonicalize(job.extracted?.skills ?? []);
 
-  // Loading state when extracted data is not yet available
+  // Queued or rejected server operation from offline mode
+  const syncNotice =
+    job.pendingSync &&
+    (job.syncConflict ? (
+      <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-2">
+        <p>
+          ⚠️ Couldn't {job.pendingSync} this job: {job.syncConflict}
+        </p>
+        {onResolveSyncConflict && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => onResolveSyncConflict(job.id, "retry")}
+              className="px-3 py-1 text-xs bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Retry
+            </button>
+            <button
+              type="button"
+              onClick={() => onResolveSyncConflict(job.id, "discard")}
+              className="px-3 py-1 text-xs bg-white text-red-700 border border-red-300 rounded-lg hover:bg-red-100 transition-colors"
+            >
+              {job.pendingSync === "analyze" ? "Discard" : "Keep job"}
+            </button>
+          </div>
+        )}
+      </div>
+    ) : (
+      <p className="px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+        ⏳ Waiting to sync — will be{" "}
+        {job.pendingSync === "analyze" ? "analyzed" : "deleted"} when you're
+        back online
+      </p>
+    ));
+
+  // Queued for analysis while offline: show the posting text instead of the
+  // loading skeleton
+  if (!extracted && job.pendingSync === "analyze") {
+    return (
+      <div className="bg-white shadow-lg rounded-2xl p-4 sm:p-6 space-y-3">
+        <div className="flex justify-between items-start gap-2">
+          <p className="text-sm text-gray-700 line-clamp-4 whitespace-pre-wrap">
+            {job.originalText}
+          </p>
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="text-red-500 hover:text-red-700 p-2 rounded-lg hover:bg-red-50 transition-colors flex-shrink-0"
+            title="Remove from queue"
+            aria-label="Remove from queue"
+          >
+            ✕
+          </button>
+        </div>
+        {syncNotice}
+      </div>
+    );
+  }
+
+  // Loading state when extracted data is not yet available. Fields that
+  // have streamed in replace their placeholders.
   if (!extracted) {
+    const streamed = job.streamed ?? {};
+    const placeholder = (className: string) => (
+      <div className={`bg-gray-300 rounded animate-pulse ${className}`}></div>
+    );
+    const progress = streamed.descriptionSummary
+      ? "Finishing up..."
+      : streamed.skills
+        ? "Generating AI summary..."
+        : streamed.title
+          ? "Extracting skills..."
+          : "Reading the listing...";
+
     return (
-      <div className="bg-white shadow-lg rounded-2xl p-4 sm:p-6 animate-pulse">
+      <div className="bg-white shadow-lg rounded-2xl p-4 sm:p-6">
         <div className="flex justify-between items-start mb-4">
           <div className="flex-1 min-w-0">
-            <div className="h-6 bg-gray-300 rounded mb-2"></div>
-            <div className="h-4 bg-gray-300 rounded"></div>
+            {streamed.title ? (
+              <h3 className="text-xl font-bold text-gray-900 mb-1 animate-fadeIn">
+                {streamed.title}
+              </h3>
+            ) : (
+              placeholder("h-6 mb-2")
+            )}
+            {streamed.company ? (
+              <p className="text-base text-gray-600 truncate animate-fadeIn">
+                {streamed.company}
+              </p>
+            ) : (
+              placeholder("h-4")
+            )}
           </div>
-          <div className="h-5 w-5 bg-gray-300 rounded"></div>
+          {placeholder("h-5 w-5 ml-2")}
         </div>
-        <div className="space-y-2">
-          <div className="h-4 bg-gray-300 rounded"></div>
-          <div className="h-4 bg-gray-300 rounded"></div>
-          <div className="h-4 bg-gray-300 rounded"></div>
+        <div className="space-y-2 text-sm text-gray-600">
+          {streamed.location ? (
+            <p className="animate-fadeIn">📍 {streamed.location}</p>
+          ) : (
+            placeholder("h-4")
+          )}
+          {streamed.experienceLevel ? (
+            <p className="animate-fadeIn">💼 {streamed.experienceLevel}</p>
+          ) : (
+            placeholder("h-4")
+          )}
+          {streamed.salaryRange && (
+            <p className="animate-fadeIn">💰 {streamed.salaryRange}</p>
+          )}
+          {streamed.skills ? (
+            <div className="flex flex-wrap gap-1 sm:gap-2 pt-2 animate-fadeIn">
+              {streamed.skills.map((skill) => (
+                <span
+                  key={skill}
+                  className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+                >
+                  {skill}
+                </span>
+              ))}
+            </div>
+          ) : (
+            placeholder("h-4")
+          )}
+          {streamed.descriptionSummary && (
+            <p className="pt-2 text-gray-700 line-clamp-4 animate-fadeIn">
+              {streamed.descriptionSummary}
+            </p>
+          )}
         </div>
         <div className="mt-4 flex items-center gap-2">
           <div className="h-4 w-4 bg-blue-300 rounded-full animate-spin"></div>
-          <span className="text-sm text-gray-500">
-            Generating AI summary...
-          </span>
+          <span className="text-sm text-gray-500">{progress}</span>
         </div>
       </div>
     );
   }
 
-  // Function to parse and render structured summary
-  const renderStructuredSummary = (summary: string) => {
-    const sections = summary.split(
-      /\n(?=\*\*|\b(?:Overview|Responsibilities|Requirements|Benefits|Company|Role)\b:)/i
-    );
-    return sections.map((section, index) => {
-      const trimmed = section.trim();
-      if (!trimmed) return null;
+  const fromStructuredData = job.extractionSource === "structured";
 
-      // Check if it's a section header
-      const headerMatch = trimmed.match(
-        /^(\*\*)?([A-Za-z\s]+):(\*\*)?\s*(.*)$/
-      );
-      if (headerMatch) {
-        const [, , header, , content] = headerMatch;
+  const highlight = (
+    text: string,
+    field: SearchField,
+    markClassName?: string
+  ) => (
+    <HighlightedText
+      text={text}
+      terms={searchTerms}
+      field={field}
+      markClassName={markClassName}
+    />
+  );
+
+  // Function to parse and render structured summary
+  const renderStructuredSummary = (summary: string) =>
+    parseSummarySections(summary).map(({ header, content }, index) => {
+      if (header) {
         return (
           <div key={index} className="mb-4">
             <h5 className="font-semibold text-gray-900 text-sm sm:text-base mb-2 capitalize">
-              {header.trim()}
+              {header}
             </h5>
             <p className="text-gray-700 leading-relaxed text-sm sm:text-base">
-              {content.trim()}
+              {highlight(content, "summary")}
             </p>
           </div>
         );
@@ -80,11 +306,10 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
           key={index}
           className="text-gray-700 leading-relaxed text-sm sm:text-base mb-3"
         >
-          {trimmed}
+          {highlight(content, "summary")}
         </p>
       );
     });
-  };
 
   // Summary preview for compact view
   const summaryPreview = extracted.descriptionSummary
@@ -96,7 +321,11 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
   return (
     <div
       className={`bg-white shadow-lg rounded-2xl p-4 sm:p-6 hover:shadow-xl hover:scale-[1.02] transition-all duration-300 focus-within:ring-2 focus-within:ring-blue-400 ${
-        isExpanded ? "ring-2 ring-blue-500 shadow-2xl scale-[1.01]" : ""
+        isExpanded
+          ? "ring-2 ring-blue-500 shadow-2xl scale-[1.01]"
+          : selected
+            ? "ring-2 ring-indigo-300"
+            : ""
       }`}
       role="article"
       aria-expanded={isExpanded}
@@ -117,8 +346,28 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
       >
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
+            {onToggleSelect && (
+              <input
+                type="checkbox"
+                checked={selected}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => e.stopPropagation()}
+                onChange={(e) =>
+                  onToggleSelect(
+                    job.id,
+                    (e.nativeEvent as MouseEvent).shiftKey === true
+                  )
+                }
+                className="h-4 w-4 flex-shrink-0 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                aria-label={`Select ${extracted.title}`}
+              />
+            )}
             <h3 className="text-xl sm:text-2xl font-bold text-gray-900 mb-1 truncate bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-              {extracted.title}
+              {highlight(
+                extracted.title,
+                "title",
+                "bg-yellow-200 text-gray-900 rounded-sm"
+              )}
             </h3>
             <svg
               xmlns="http://www.w3.org/2000/svg"
@@ -138,8 +387,16 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
             </svg>
           </div>
           <p className="text-base sm:text-lg text-gray-600 truncate">
-            {extracted.company}
+            {highlight(extracted.company, "company")}
           </p>
+          {job.localOnly && (
+            <span
+              className="inline-block mt-1 px-2 py-0.5 bg-gray-100 text-gray-600 text-xs font-medium rounded-full"
+              title="This job was never sent to the server. It only exists in this browser; export it to keep a copy."
+            >
+              💾 Local only
+            </span>
+          )}
         </div>
         <button
           type="button"
@@ -172,6 +429,87 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
 
       {/* Compact View - Always Visible */}
       <div className="space-y-2 sm:space-y-3 mt-4">
+        {syncNotice}
+
+        {match && (
+          <div className="flex items-center gap-2 text-sm">
+            <span
+              className={`px-2 py-0.5 rounded-full font-semibold ${getMatchColor(
+                match.score
+              )}`}
+              title={`Skills ${Math.round(match.breakdown.skills)}, location ${Math.round(
+                match.breakdown.location
+              )}, experience ${Math.round(
+                match.breakdown.experience
+              )}, rate ${Math.round(match.breakdown.rate)}`}
+            >
+              🎯 {match.score}% match
+            </span>
+            {skills.length > 0 && (
+              <span className="text-xs text-gray-500">
+                {match.matchedSkills.length}/{skills.length} skills
+              </span>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2 text-sm">
+          <label
+            htmlFor={`status-${job.id}`}
+            className="font-semibold text-gray-700"
+          >
+            📌 Status:
+          </label>
+          <select
+            id={`status-${job.id}`}
+            value={status}
+            onChange={(e) =>
+              onStatusChange(job.id, e.target.value as ApplicationStatus)
+            }
+            className={`px-2 py-1 rounded-lg text-xs sm:text-sm font-medium border-none focus:ring-2 focus:ring-blue-400 ${getStatusColor(
+              status
+            )}`}
+          >
+            {APPLICATION_STATUSES.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {(collection || (job.tags && job.tags.length > 0) || job.deadline) && (
+          <div className="flex flex-wrap items-center gap-1 text-xs">
+            {job.deadline && (
+              <span
+                title={`Application deadline ${new Date(
+                  `${job.deadline}T00:00`
+                ).toLocaleDateString()}`}
+                className={`px-2 py-0.5 rounded-full font-medium ${
+                  endOfLocalDay(job.deadline).getTime() < Date.now()
+                    ? "bg-red-100 text-red-700"
+                    : "bg-amber-100 text-amber-800"
+                }`}
+              >
+                📌 Due {formatDueIn(endOfLocalDay(job.deadline))}
+              </span>
+            )}
+            {collection && (
+              <span className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 font-medium">
+                📁 {collection.name}
+              </span>
+            )}
+            {job.tags?.map((tag) => (
+              <span
+                key={tag}
+                className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600"
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+
         <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2 text-sm">
           <span className="font-semibold text-gray-700">📍 Location:</span>
           <span className="text-gray-600 truncate">
@@ -190,23 +528,54 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
           <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2 text-sm">
             <span className="font-semibold text-gray-700">💰 Salary:</span>
             <span className="text-gray-600">{extracted.salaryRange}</span>
+            {parsedSalary && parsedSalary.period !== "year" && (
+              <span
+                className="text-xs text-gray-400"
+                title="Annualized using the dashboard's salary assumptions"
+              >
+                ≈{" "}
+                {formatAnnualSalary(
+                  annualizeSalary(parsedSalary, salaryAssumptions)
+                )}
+              </span>
+            )}
           </div>
         )}
 
-        {extracted.skills && extracted.skills.length > 0 && (
+        {skills.length > 0 && (
           <div className="mt-4">
             <span className="font-semibold text-gray-700 text-sm block mb-3">
               🛠️ Skills:
             </span>
             <div className="flex flex-wrap gap-1 sm:gap-2">
-              {extracted.skills.map((skill, index) => (
-                <span
-                  key={index}
-                  className="px-2 sm:px-3 py-1 bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-800 rounded-full text-xs sm:text-sm font-medium shadow-sm hover:shadow-md transition-shadow"
-                >
-                  {skill}
-                </span>
-              ))}
+              {skills.map((skill) => {
+                const isMatched = match?.matchedSkills.includes(skill);
+                const isMissing = match?.missingSkills.includes(skill);
+                return (
+                  <span
+                    key={skill}
+                    className={`px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium shadow-sm hover:shadow-md transition-shadow ${
+                      isMatched
+                        ? "bg-green-100 text-green-800"
+                        : isMissing
+                          ? "bg-gray-100 text-gray-500"
+                          : getSkillCategoryColor(
+                              skillResolver.resolve(skill).category
+                            )
+                    }`}
+                    title={
+                      isMatched
+                        ? "In your profile"
+                        : isMissing
+                          ? "Not in your profile"
+                          : (skillResolver.resolve(skill).category ?? undefined)
+                    }
+                  >
+                    {isMatched && "✓ "}
+                    {highlight(skill, "skill")}
+                  </span>
+                );
+              })}
             </div>
           </div>
         )}
@@ -220,12 +589,12 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
             </h4>
             <div className="bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 rounded-lg p-3 border border-blue-200">
               <p className="text-gray-700 leading-relaxed text-sm">
-                {summaryPreview}
+                {highlight(summaryPreview, "summary")}
                 {extracted.descriptionSummary.length > 120 && (
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      setIsExpanded(true);
+                      setExpanded(true);
                     }}
                     className="text-blue-600 hover:text-blue-800 font-medium ml-1 focus:outline-none focus:ring-2 focus:ring-blue-400 rounded"
                   >
@@ -256,6 +625,214 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
             </div>
           )}
 
+          {/* Notes */}
+          <div>
+            <label
+              htmlFor={`notes-${job.id}`}
+              className="font-semibold text-gray-900 text-sm mb-2 flex items-center gap-2"
+            >
+              <span>📝</span>
+              <span>Notes</span>
+            </label>
+            <textarea
+              id={`notes-${job.id}`}
+              value={notesInput}
+              onChange={(e) => setNotesInput(e.target.value)}
+              onBlur={handleNotesBlur}
+              placeholder="Contacts, follow-ups, interview prep..."
+              className="w-full h-24 p-3 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+            />
+          </div>
+
+          {/* Deadline & Follow-up */}
+          {onDatesChange && (
+            <div>
+              <h4 className="font-semibold text-gray-900 text-sm mb-2 flex items-center gap-2">
+                <span>📅</span>
+                <span>Deadline & Follow-up</span>
+              </h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs text-gray-600">
+                <label className="block">
+                  Application deadline
+                  <input
+                    type="date"
+                    value={job.deadline ?? ""}
+                    onChange={(e) =>
+                      onDatesChange(job.id, {
+                        deadline: e.target.value || undefined,
+                      })
+                    }
+                    className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </label>
+                <label className="block">
+                  Follow up on
+                  <input
+                    type="datetime-local"
+                    value={toDateTimeInput(job.followUpAt)}
+                    onChange={(e) =>
+                      onDatesChange(job.id, {
+                        followUpAt: fromDateTimeInput(e.target.value),
+                      })
+                    }
+                    className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </label>
+              </div>
+            </div>
+          )}
+
+          {/* Tags & Collection */}
+          {(onTagsChange || onCollectionChange) && (
+            <div>
+              <h4 className="font-semibold text-gray-900 text-sm mb-2 flex items-center gap-2">
+                <span>🏷️</span>
+                <span>Tags & Collection</span>
+              </h4>
+              {onTagsChange && (
+                <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+                  {job.tags?.map((tag) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() =>
+                        onTagsChange(
+                          job.id,
+                          (job.tags ?? []).filter((t) => t !== tag)
+                        )
+                      }
+                      className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700 hover:bg-red-50 hover:text-red-700"
+                      aria-label={`Remove tag ${tag}`}
+                    >
+                      #{tag} ✕
+                    </button>
+                  ))}
+                  <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" || e.key === ",") {
+                        e.preventDefault();
+                        addTags();
+                      }
+                    }}
+                    onBlur={addTags}
+                    placeholder="Add tags..."
+                    aria-label="Add tags"
+                    className="w-32 px-2 py-1 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+              {onCollectionChange && (
+                <div className="mt-2 flex items-center gap-2 text-sm">
+                  <label
+                    htmlFor={`collection-${job.id}`}
+                    className="text-gray-700"
+                  >
+                    📁 Collection:
+                  </label>
+                  <select
+                    id={`collection-${job.id}`}
+                    value={job.collectionId ?? ""}
+                    onChange={(e) =>
+                      onCollectionChange(job.id, e.target.value || null)
+                    }
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">None</option>
+                    {collections.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Status History */}
+          {job.statusHistory && job.statusHistory.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-900 text-sm mb-3 flex items-center gap-2">
+                <span>🕒</span>
+                <span>Status History</span>
+              </h4>
+              <ol className="relative border-l-2 border-blue-200 ml-2 space-y-3">
+                {[...job.statusHistory].reverse().map((change, index) => (
+                  <li key={index} className="ml-4">
+                    <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full bg-blue-500"></span>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                        change.status
+                      )}`}
+                    >
+                      {getStatusLabel(change.status)}
+                    </span>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(change.changedAt).toLocaleDateString()} at{" "}
+                      {new Date(change.changedAt).toLocaleTimeString()}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Proposal Snippets */}
+          {snippetResults && snippetResults.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-900 text-sm mb-2 flex items-center gap-2">
+                <span>🧩</span>
+                <span>Proposal Snippets</span>
+                <span className="text-xs font-normal text-gray-500">
+                  {snippetResults.filter((r) => r.fires).length} of{" "}
+                  {snippetResults.length} apply
+                </span>
+              </h4>
+              <ul className="space-y-1 text-sm">
+                {snippetResults.map(({ snippet, fires, results }) => (
+                  <li
+                    key={snippet.id}
+                    className={fires ? "text-gray-900" : "text-gray-400"}
+                  >
+                    <span className="font-medium">
+                      {fires ? "✓" : "–"} {snippet.name}
+                    </span>
+                    {snippet.conditions.length > 0 && (
+                      <span className="text-xs">
+                        {" "}
+                        (
+                        {snippet.conditions.map((condition, index) => (
+                          <span key={index}>
+                            {index > 0 &&
+                              (snippet.match === "all" ? " and " : " or ")}
+                            <span
+                              className={
+                                results[index]
+                                  ? "text-green-700"
+                                  : "line-through"
+                              }
+                            >
+                              {describeCondition(condition)}
+                            </span>
+                          </span>
+                        ))}
+                        )
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Analysis Versions */}
+          {onSelectVersion && (
+            <ExtractionVersions job={job} onSelectVersion={onSelectVersion} />
+          )}
+
           {/* Metadata */}
           <div className="bg-gradient-to-r from-gray-50 to-slate-50 rounded-lg p-3 sm:p-4 border border-gray-200">
             <h4 className="font-semibold text-gray-900 text-sm mb-2 flex items-center gap-2">
@@ -271,6 +848,66 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
                 {new Date(job.createdAt).toLocaleDateString()} at{" "}
                 {new Date(job.createdAt).toLocaleTimeString()}
               </p>
+              <p>
+                <span className="font-semibold">Source:</span>{" "}
+                {fromStructuredData
+                  ? "🧩 From structured data (schema.org JobPosting)"
+                  : "🤖 AI extracted"}
+              </p>
+              {job.localOnly && (
+                <p>
+                  <span className="font-semibold">Stored:</span> in this browser
+                  only, not on the server
+                </p>
+              )}
+              {job.extractionVersions && (
+                <p>
+                  <span className="font-semibold">Analyses:</span>{" "}
+                  {job.extractionVersions.length}
+                </p>
+              )}
+              {onReanalyze && !job.pendingSync && (
+                <p>
+                  <button
+                    type="button"
+                    onClick={() => onReanalyze(job.id)}
+                    disabled={reanalyzing}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-wait"
+                  >
+                    {reanalyzing ? "⏳ Re-analyzing..." : "🔄 Re-analyze"}
+                  </button>
+                </p>
+              )}
+              <p>
+                <a
+                  href={jobPath(job.id)}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    navigate(jobPath(job.id));
+                  }}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  🔗 Compare with original / correct fields
+                </a>
+              </p>
+              <p>
+                <a
+                  href={`${jobPath(job.id)}#proposal`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    navigate(`${jobPath(job.id)}#proposal`);
+                  }}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  ✍️ Write a proposal
+                </a>
+              </p>
+              {job.editedFields && job.editedFields.length > 0 && (
+                <p className="text-purple-700">
+                  ✎ {job.editedFields.length} field
+                  {job.editedFields.length === 1 ? "" : "s"} corrected by hand
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -281,7 +918,8 @@ export default function JobCard({ job, onDelete }: JobCardProps) {
         <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-gray-200">
           <span className="text-xs text-gray-400 block sm:inline">
             Click to expand • Analyzed on{" "}
-            {new Date(job.createdAt).toLocaleDateString()}
+            {new Date(job.createdAt).toLocaleDateString()} •{" "}
+            {fromStructuredData ? "from structured data" : "AI extracted"}
           </span>
         </div>
       )}
@@ -0,0 +1,249 @@
+import { useMemo, useRef, useState } from "react";
+import type { ExtractedField, ExtractedJobData, Job } from "../types/index.js";
+import {
+  EXTRACTED_FIELDS,
+  findSourceSpans,
+  segmentText,
+} from "../utils/sourceSpans";
+
+interface JobDetailProps {
+  job: Job;
+  onUpdateField: <F extends ExtractedField>(
+    id: number,
+    field: F,
+    value: ExtractedJobData[F]
+  ) => void;
+  onRevertField: (id: number, field: ExtractedField) => void;
+}
+
+const formatValue = (extracted: ExtractedJobData, field: ExtractedField) =>
+  field === "skills" ? extracted.skills.join(", ") : extracted[field];
+
+export default function JobDetail({
+  job,
+  onUpdateField,
+  onRevertField,
+}: JobDetailProps) {
+  const [activeField, setActiveField] = useState<ExtractedField | null>(null);
+  const [editing, setEditing] = useState<ExtractedField | null>(null);
+  const [draft, setDraft] = useState("");
+  const sourceRef = useRef<HTMLPreElement>(null);
+  const { extracted } = job;
+
+  const segments = useMemo(
+    () =>
+      segmentText(
+        job.originalText,
+        extracted ? findSourceSpans(job.originalText, extracted) : []
+      ),
+    [job.originalText, extracted]
+  );
+
+  const fieldsWithSource = useMemo(
+    () => new Set(segments.flatMap((segment) => segment.fields)),
+    [segments]
+  );
+
+  // Highlight a field's source and bring its first occurrence into view
+  const selectField = (field: ExtractedField) => {
+    setActiveField(field);
+    sourceRef.current
+      ?.querySelector(`[data-fields~="${field}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const startEditing = (field: ExtractedField) => {
+    if (!extracted) return;
+    setDraft(formatValue(extracted, field));
+    setEditing(field);
+    setActiveField(field);
+  };
+
+  const saveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !extracted) return;
+    if (draft !== formatValue(extracted, editing)) {
+      if (editing === "skills") {
+        const skills = draft
+          .split(",")
+          .map((skill) => skill.trim())
+          .filter(Boolean);
+        onUpdateField(job.id, "skills", skills);
+      } else {
+        onUpdateField(job.id, editing, draft.trim());
+      }
+    }
+    setEditing(null);
+  };
+
+  const inputClass =
+    "w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 items-start">
+      <section className="p-4 bg-white rounded-2xl shadow-lg">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">
+          Original listing
+        </h3>
+        {job.bodyPending ? (
+          <p className="text-sm text-gray-500 italic">
+            Loading original listing…
+          </p>
+        ) : (
+          <pre
+            ref={sourceRef}
+            className="max-h-[70vh] overflow-y-auto text-sm text-gray-700 whitespace-pre-wrap font-sans"
+          >
+            {segments.map((segment, index) =>
+              segment.fields.length > 0 ? (
+                <mark
+                  key={index}
+                  data-fields={segment.fields.join(" ")}
+                  onClick={() => setActiveField(segment.fields[0])}
+                  className={`cursor-pointer rounded-sm text-inherit transition-colors ${
+                    activeField && segment.fields.includes(activeField)
+                      ? "bg-yellow-300"
+                      : "bg-blue-50 hover:bg-blue-100"
+                  }`}
+                >
+                  {segment.text}
+                </mark>
+              ) : (
+                segment.text
+              )
+            )}
+          </pre>
+        )}
+      </section>
+
+      <section className="p-4 bg-white rounded-2xl shadow-lg">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">
+          Extracted fields
+        </h3>
+        {!extracted ? (
+          <p className="text-sm text-gray-500 italic">
+            This job hasn't been analyzed yet.
+          </p>
+        ) : (
+          <dl className="space-y-2">
+            {EXTRACTED_FIELDS.map(({ field, label }) => {
+              const isEdited = job.editedFields?.includes(field) ?? false;
+              return (
+                <div
+                  key={field}
+                  onClick={() => editing !== field && selectField(field)}
+                  className={`p-2 rounded-lg border cursor-pointer transition-colors ${
+                    activeField === field
+                      ? "border-yellow-300 bg-yellow-50"
+                      : "border-transparent hover:bg-gray-50"
+                  }`}
+                >
+                  <dt className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    {label}
+                    {isEdited && (
+                      <span
+                        className="px-1.5 py-0.5 normal-case tracking-normal font-medium rounded-full bg-purple-100 text-purple-700"
+                        title="Corrected by hand"
+                      >
+                        ✎ edited
+                      </span>
+                    )}
+                    {field !== "descriptionSummary" &&
+                      !fieldsWithSource.has(field) && (
+                        <span className="normal-case tracking-normal font-normal text-gray-400">
+                          not found in listing
+                        </span>
+                      )}
+                  </dt>
+                  <dd className="mt-1 text-sm text-gray-800">
+                    {editing === field ? (
+                      <form
+                        onSubmit={saveEdit}
+                        onClick={(e) => e.stopPropagation()}
+                        className="space-y-2"
+                      >
+                        {field === "descriptionSummary" ? (
+                          <textarea
+                            autoFocus
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            rows={6}
+                            aria-label={label}
+                            className={inputClass}
+                          />
+                        ) : (
+                          <input
+                            autoFocus
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) =>
+                              e.key === "Escape" && setEditing(null)
+                            }
+                            placeholder={
+                              field === "skills" ? "Comma-separated" : undefined
+                            }
+                            aria-label={label}
+                            className={inputClass}
+                          />
+                        )}
+                        <div className="flex gap-2">
+                          <button
+                            type="submit"
+                            className="px-2 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                          >
+                            Save
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditing(null)}
+                            className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </form>
+                    ) : (
+                      <div className="flex items-start justify-between gap-2">
+                        <span className="whitespace-pre-wrap">
+                          {formatValue(extracted, field) || (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </span>
+                        <span className="flex shrink-0 gap-2 text-xs">
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              startEditing(field);
+                            }}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Edit
+                          </button>
+                          {isEdited && (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onRevertField(job.id, field);
+                              }}
+                              disabled={job.bodyPending}
+                              title="Restore the analyzed value"
+                              className="text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                            >
+                              Revert
+                            </button>
+                          )}
+                        </span>
+                      </div>
+                    )}
+                  </dd>
+                </div>
+              );
+            })}
+          </dl>
+        )}
+      </section>
+    </div>
+  );
+}
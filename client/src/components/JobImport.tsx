@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useJobStore } from "../store/useJobStore";
+import {
+  parseImportFile,
+  resolveImport,
+  type DuplicateResolution,
+  type ImportResult,
+} from "../utils/import";
+
+const RESOLUTIONS: { value: DuplicateResolution; label: string }[] = [
+  { value: "skip", label: "Skip" },
+  { value: "overwrite", label: "Overwrite" },
+  { value: "keep-both", label: "Keep both" },
+];
+
+export default function JobImport() {
+  const { jobs, importJobs, loadJobBodies } = useJobStore();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [resolutions, setResolutions] = useState<
+    Record<number, DuplicateResolution>
+  >({});
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setResult(null);
+    setResolutions({});
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportedCount(null);
+    setFileName(file.name);
+    setResolutions({});
+    const text = await file.text();
+    // Duplicates are found by posting text, so every body is needed
+    setResult(parseImportFile(file.name, text, await loadJobBodies()));
+  };
+
+  const handleImport = () => {
+    if (!result) return;
+    const toImport = resolveImport(result.candidates, resolutions, jobs);
+    importJobs(toImport);
+    setImportedCount(toImport.length);
+    reset();
+  };
+
+  const duplicates = result?.candidates.filter((c) => c.duplicateOf) ?? [];
+  const newJobs = result?.candidates.filter((c) => !c.duplicateOf) ?? [];
+
+  const setAllResolutions = (resolution: DuplicateResolution) =>
+    setResolutions(
+      Object.fromEntries(duplicates.map(({ row }) => [row, resolution]))
+    );
+
+  return (
+    <div className="inline-block">
+      <label className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors cursor-pointer">
+        Import
+        <input
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </label>
+      {importedCount !== null && (
+        <span className="ml-2 text-sm text-green-700">
+          Imported {importedCount} {importedCount === 1 ? "job" : "jobs"}
+        </span>
+      )}
+
+      {result && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Import jobs"
+        >
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-4 text-left">
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="text-lg font-bold text-gray-900">Import jobs</h3>
+                <p className="text-sm text-gray-500">{fileName}</p>
+              </div>
+              <button
+                type="button"
+                onClick={reset}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-700">
+              {newJobs.length} new, {duplicates.length} possible{" "}
+              {duplicates.length === 1 ? "duplicate" : "duplicates"},{" "}
+              {result.errors.length} invalid{" "}
+              {result.errors.length === 1 ? "row" : "rows"}. Jobs are imported
+              as-is without re-running AI analysis.
+            </p>
+
+            {/* Per-row validation errors */}
+            {result.errors.length > 0 && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 max-h-40 overflow-y-auto">
+                <ul className="space-y-1">
+                  {result.errors.map(({ row, messages }) => (
+                    <li key={row}>
+                      <span className="font-semibold">
+                        {row === 0 ? "File" : `Row ${row}`}:
+                      </span>{" "}
+                      {messages.join("; ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Duplicate resolution */}
+            {duplicates.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-semibold text-gray-900">
+                    Already in your list
+                  </h4>
+                  <div className="flex gap-1 text-xs">
+                    <span className="text-gray-500 mr-1">All:</span>
+                    {RESOLUTIONS.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setAllResolutions(value)}
+                        className="px-2 py-0.5 bg-gray-100 rounded hover:bg-gray-200"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {duplicates.map(({ row, job, duplicateOf }) => (
+                    <li
+                      key={row}
+                      className="flex items-center justify-between gap-2 px-3 py-2 text-sm"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate text-gray-800">
+                          {job.extracted?.title} — {job.extracted?.company}
+                        </p>
+                        <p className="truncate text-xs text-gray-500">
+                          Matches job #{duplicateOf?.id} analyzed{" "}
+                          {duplicateOf &&
+                            new Date(
+                              duplicateOf.createdAt
+                            ).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <select
+                        value={resolutions[row] ?? "skip"}
+                        onChange={(e) =>
+                          setResolutions((prev) => ({
+                            ...prev,
+                            [row]: e.target.value as DuplicateResolution,
+                          }))
+                        }
+                        aria-label={`Resolution for row ${row}`}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        {RESOLUTIONS.map(({ value, label }) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                type="button"
+                onClick={reset}
+                className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={result.candidates.length === 0}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                Import
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,39 @@
 import { useState } from "react";
 import { useJobStore } from "../store/useJobStore";
+import { useAnalysisQueueStore } from "../store/useAnalysisQueueStore";
+import {
+  DEFAULT_BATCH_DELIMITER,
+  readListingFiles,
+  splitListings,
+} from "../utils/batchInput";
+import type { ExtractedJobData } from "../types/index.js";
+import type { SimilarJob } from "../utils/duplicates";
+import AnalysisQueue from "./AnalysisQueue";
+import DuplicateWarning from "./DuplicateWarning";
+import HtmlImportPanel from "./HtmlImportPanel";
+
+type InputMode = "single" | "batch" | "web";
 
 export default function JobInputForm() {
   const [text, setText] = useState("");
-  const { analyzing, analyzeError, analyzeJob, clearAnalyzeError } =
-    useJobStore();
+  const [mode, setMode] = useState<InputMode>("single");
+  const [delimiter, setDelimiter] = useState(DEFAULT_BATCH_DELIMITER);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [duplicates, setDuplicates] = useState<SimilarJob[]>([]);
+  // Structured data of a web page listing held back by the duplicate check
+  const [heldStructured, setHeldStructured] = useState<ExtractedJobData | null>(
+    null
+  );
+  const {
+    analyzing,
+    analyzeError,
+    analyzeJob,
+    clearAnalyzeError,
+    checkDuplicates,
+  } = useJobStore();
+  const enqueue = useAnalysisQueueStore((state) => state.enqueue);
+
+  const batchListings = mode === "batch" ? splitListings(text, delimiter) : [];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -13,10 +42,59 @@ export default function JobInputForm() {
       return;
     }
 
-    const job = await analyzeJob(text);
+    if (mode === "batch") {
+      enqueue(batchListings);
+      setText("");
+      return;
+    }
+
+    await analyzeListing(text);
+  };
+
+  // Check for a near-identical posting before spending an API call. A
+  // listing from the web page import lands in the text box when it needs
+  // the duplicate warning.
+  const analyzeListing = async (
+    listing: string,
+    structured: ExtractedJobData | null = null
+  ) => {
+    const similar = await checkDuplicates(listing);
+    if (similar.length > 0) {
+      setText(listing);
+      setMode("single");
+      setDuplicates(similar);
+      setHeldStructured(structured);
+      return false;
+    }
+
+    setDuplicates([]);
+    setHeldStructured(null);
+    const job = await analyzeJob(listing, structured);
     if (job) {
       setText("");
     }
+    return job !== null;
+  };
+
+  const submitJob = async () => {
+    setDuplicates([]);
+    setHeldStructured(null);
+    const job = await analyzeJob(text, heldStructured);
+    if (job) {
+      setText("");
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    enqueue(await readListingFiles(files));
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (mode !== "batch") setMode("batch");
+    await handleFiles(e.dataTransfer.files);
   };
 
   return (
@@ -25,64 +103,169 @@ export default function JobInputForm() {
       className="space-y-4 p-6 bg-white shadow-lg rounded-2xl"
     >
       <div>
-        <label
-          htmlFor="jobText"
-          className="block text-sm font-medium text-gray-700 mb-2"
-        >
-          Paste Job Listing
-        </label>
-        <textarea
-          id="jobText"
-          value={text}
-          onChange={(e) => {
-            setText(e.target.value);
-            if (analyzeError) clearAnalyzeError();
-          }}
-          placeholder="Paste a job listing here..."
-          className="w-full h-48 p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-          disabled={analyzing}
-        />
+        <div className="flex items-center justify-between mb-2">
+          <label
+            htmlFor="jobText"
+            className="block text-sm font-medium text-gray-700"
+          >
+            {mode === "batch"
+              ? "Paste Job Listings"
+              : mode === "web"
+                ? "Import from a Web Page"
+                : "Paste Job Listing"}
+          </label>
+          <div className="flex rounded-lg bg-gray-100 p-1">
+            {(
+              [
+                { value: "single", label: "Single" },
+                { value: "batch", label: "Batch" },
+                { value: "web", label: "Web page" },
+              ] as const
+            ).map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setMode(value)}
+                className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                  mode === value
+                    ? "bg-white text-blue-600 shadow"
+                    : "text-gray-700 hover:text-gray-900"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {mode === "batch" && (
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-gray-600">
+            <label htmlFor="batchDelimiter">
+              Separate listings with a line of
+            </label>
+            <input
+              id="batchDelimiter"
+              type="text"
+              value={delimiter}
+              onChange={(e) => setDelimiter(e.target.value)}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-lg font-mono text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span>or drop .txt files</span>
+            <label className="px-3 py-1 bg-gray-100 rounded-lg cursor-pointer hover:bg-gray-200 transition-colors">
+              Choose files
+              <input
+                type="file"
+                accept=".txt,text/plain"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+        )}
+        {mode === "web" ? (
+          <HtmlImportPanel
+            analyzing={analyzing}
+            onAnalyze={analyzeListing}
+            onEditAsText={(listing) => {
+              setText(listing);
+              setMode("single");
+            }}
+          />
+        ) : (
+          <textarea
+            id="jobText"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              if (analyzeError) clearAnalyzeError();
+              if (duplicates.length > 0) setDuplicates([]);
+              // Edited text no longer matches the page's structured data
+              if (heldStructured) setHeldStructured(null);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragOver(true);
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+            placeholder={
+              mode === "batch"
+                ? `Paste several job listings, separated by a line containing only ${delimiter}`
+                : "Paste a job listing here..."
+            }
+            className={`w-full h-48 p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none ${
+              isDragOver ? "ring-2 ring-blue-500 bg-blue-50" : ""
+            }`}
+            disabled={analyzing && mode === "single"}
+          />
+        )}
       </div>
 
+      {mode === "single" && duplicates.length > 0 && (
+        <DuplicateWarning
+          text={text}
+          matches={duplicates}
+          onAnalyzeAnyway={submitJob}
+          onCancel={() => setDuplicates([])}
+        />
+      )}
+
       {analyzeError && (
         <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
           {analyzeError}
         </div>
       )}
 
-      <button
-        type="submit"
-        disabled={analyzing || !text.trim()}
-        className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
-      >
-        {analyzing ? (
-          <span className="flex items-center justify-center">
-            <svg
-              className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
-              xmlns="http://www.w3.org/2000/svg"
-              fill="none"
-              viewBox="0 0 24 24"
-            >
-              <circle
-                className="opacity-25"
-                cx="12"
-                cy="12"
-                r="10"
-                stroke="currentColor"
-                strokeWidth="4"
-              ></circle>
-              <path
-                className="opacity-75"
-                fill="currentColor"
-                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-              ></path>
-            </svg>
-            Analyzing...
-          </span>
-        ) : (
-          "Analyze Job Posting"
-        )}
-      </button>
+      {mode === "web" ? null : mode === "batch" ? (
+        <button
+          type="submit"
+          disabled={batchListings.length === 0}
+          className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          Queue {batchListings.length}{" "}
+          {batchListings.length === 1 ? "Listing" : "Listings"}
+        </button>
+      ) : (
+        <button
+          type="submit"
+          disabled={analyzing || !text.trim() || duplicates.length > 0}
+          className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          {analyzing ? (
+            <span className="flex items-center justify-center">
+              <svg
+                className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
+                xmlns="http://www.w3.org/2000/svg"
+                fill="none"
+                viewBox="0 0 24 24"
+              >
+                <circle
+                  className="opacity-25"
+                  cx="12"
+                  cy="12"
+                  r="10"
+                  stroke="currentColor"
+                  strokeWidth="4"
+                ></circle>
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                ></path>
+              </svg>
+              Analyzing...
+            </span>
+          ) : (
+            "Analyze Job Posting"
+          )}
+        </button>
+      )}
+
+      <AnalysisQueue />
     </form>
   );
 }
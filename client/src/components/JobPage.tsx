@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useJobStore } from "../store/useJobStore";
+import { useSkillTaxonomyStore } from "../store/useSkillTaxonomyStore";
+import { useProposalStore } from "../store/useProposalStore";
+import { evaluateSnippets } from "../utils/snippets";
+import { navigate } from "../utils/router";
+import JobCard from "./JobCard";
+import JobDetail from "./JobDetail";
+import ProposalEditor from "./ProposalEditor";
+
+interface JobPageProps {
+  jobId: number;
+}
+
+export default function JobPage({ jobId }: JobPageProps) {
+  const {
+    jobs,
+    error,
+    clearError,
+    fetchJob,
+    deleteJob,
+    setJobStatus,
+    setJobNotes,
+    updateExtractedField,
+    revertExtractedField,
+    reanalyzeJob,
+    reanalyzingIds,
+    selectExtractionVersion,
+    collections,
+    setJobTags,
+    moveJobsToCollection,
+    setJobDates,
+    salaryAssumptions,
+  } = useJobStore();
+  const skillResolver = useSkillTaxonomyStore((state) => state.getResolver());
+  const snippets = useProposalStore((state) => state.snippets);
+  const [loading, setLoading] = useState(true);
+
+  const job = jobs.find((j) => j.id === jobId);
+
+  // Wait for locally saved jobs, then refresh this one from the server
+  // unless it only exists here
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      clearError();
+      const [local] = await useJobStore.getState().loadJobBodies([jobId]);
+      if (!local?.localOnly && local?.pendingSync !== "analyze") {
+        await fetchJob(jobId);
+      }
+      if (!cancelled) setLoading(false);
+    };
+
+    setLoading(true);
+    if (useJobStore.persist.hasHydrated()) {
+      load();
+      return () => {
+        cancelled = true;
+      };
+    }
+    const unsubscribe = useJobStore.persist.onFinishHydration(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [jobId, fetchJob, clearError]);
+
+  const backToDashboard = (e: React.MouseEvent) => {
+    e.preventDefault();
+    navigate("/");
+  };
+
+  // The undo toast is on the dashboard
+  const handleDelete = (id: number) => {
+    deleteJob(id);
+    navigate("/");
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <a
+        href="/"
+        onClick={backToDashboard}
+        className="inline-block text-sm text-blue-600 hover:text-blue-800"
+      >
+        ← Back to all jobs
+      </a>
+
+      {job ? (
+        <>
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex justify-between gap-2">
+              <span>{error}</span>
+              <button
+                type="button"
+                onClick={clearError}
+                className="font-bold hover:text-red-900"
+                aria-label="Dismiss error"
+              >
+                ×
+              </button>
+            </div>
+          )}
+          <JobCard
+            job={job}
+            onDelete={handleDelete}
+            onStatusChange={setJobStatus}
+            onNotesChange={setJobNotes}
+            salaryAssumptions={salaryAssumptions}
+            skillResolver={skillResolver}
+            expanded
+            onExpandedChange={() => {}}
+            onReanalyze={reanalyzeJob}
+            reanalyzing={reanalyzingIds.includes(job.id)}
+            onSelectVersion={selectExtractionVersion}
+            collections={collections}
+            onTagsChange={setJobTags}
+            onCollectionChange={(id, collectionId) =>
+              moveJobsToCollection([id], collectionId)
+            }
+            onDatesChange={setJobDates}
+            snippetResults={
+              job.extracted
+                ? evaluateSnippets(snippets, job.extracted, skillResolver)
+                : undefined
+            }
+          />
+          <JobDetail
+            job={job}
+            onUpdateField={updateExtractedField}
+            onRevertField={revertExtractedField}
+          />
+          {job.extracted && <ProposalEditor key={job.id} job={job} />}
+        </>
+      ) : loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="p-6 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error ?? `Job #${jobId} could not be found.`}
+        </div>
+      )}
+    </div>
+  );
+}
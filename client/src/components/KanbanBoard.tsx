@@ -0,0 +1,91 @@
+import { useState } from "react";
+import type { ApplicationStatus, Job } from "../types/index.js";
+import {
+  APPLICATION_STATUSES,
+  getJobStatus,
+  getStatusColor,
+} from "../utils/applicationStatus";
+
+interface KanbanBoardProps {
+  jobs: Job[];
+  onStatusChange: (id: number, status: ApplicationStatus) => void;
+}
+
+export default function KanbanBoard({
+  jobs,
+  onStatusChange,
+}: KanbanBoardProps) {
+  const [dragOverStatus, setDragOverStatus] =
+    useState<ApplicationStatus | null>(null);
+
+  const handleDragStart = (e: React.DragEvent, id: number) => {
+    e.dataTransfer.setData("text/plain", String(id));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDrop = (e: React.DragEvent, status: ApplicationStatus) => {
+    e.preventDefault();
+    setDragOverStatus(null);
+    const id = Number(e.dataTransfer.getData("text/plain"));
+    if (!Number.isNaN(id)) {
+      onStatusChange(id, status);
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {APPLICATION_STATUSES.map(({ value, label }) => {
+        const columnJobs = jobs.filter((job) => getJobStatus(job) === value);
+
+        return (
+          <div
+            key={value}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOverStatus(value);
+            }}
+            onDragLeave={() => setDragOverStatus(null)}
+            onDrop={(e) => handleDrop(e, value)}
+            className={`flex-shrink-0 w-64 bg-white/60 rounded-2xl p-3 transition-colors ${
+              dragOverStatus === value ? "ring-2 ring-blue-500 bg-blue-50" : ""
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3 px-1">
+              <span
+                className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusColor(
+                  value
+                )}`}
+              >
+                {label}
+              </span>
+              <span className="text-xs text-gray-500">{columnJobs.length}</span>
+            </div>
+
+            <div className="space-y-2 min-h-24">
+              {columnJobs.map((job) => (
+                <div
+                  key={job.id}
+                  draggable={!!job.extracted}
+                  onDragStart={(e) => handleDragStart(e, job.id)}
+                  className="bg-white shadow rounded-lg p-3 cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow"
+                >
+                  <p className="text-sm font-semibold text-gray-900 truncate">
+                    {job.extracted?.title ?? "Analyzing..."}
+                  </p>
+                  <p className="text-xs text-gray-600 truncate">
+                    {job.extracted?.company}
+                  </p>
+                  {job.notes && (
+                    <p className="text-xs text-gray-400 mt-1 truncate">
+                      📝 {job.notes}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
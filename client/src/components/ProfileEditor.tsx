@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useProfileStore } from "../store/useProfileStore";
+import type { SalaryPeriod, SkillProficiency } from "../types/index.js";
+import { EXPERIENCE_LEVELS } from "../utils/experience";
+import SkillAliasEditor from "./SkillAliasEditor";
+
+const PROFICIENCIES: { value: SkillProficiency; label: string }[] = [
+  { value: "beginner", label: "Beginner" },
+  { value: "intermediate", label: "Intermediate" },
+  { value: "advanced", label: "Advanced" },
+  { value: "expert", label: "Expert" },
+];
+
+const RATE_PERIODS: { value: SalaryPeriod; label: string }[] = [
+  { value: "hour", label: "per hour" },
+  { value: "day", label: "per day" },
+  { value: "month", label: "per month" },
+  { value: "year", label: "per year" },
+];
+
+export default function ProfileEditor() {
+  const { profile, updateProfile, addSkill, updateSkill, removeSkill } =
+    useProfileStore();
+  const [skillInput, setSkillInput] = useState("");
+  const [proficiencyInput, setProficiencyInput] =
+    useState<SkillProficiency>("intermediate");
+  const [locationsInput, setLocationsInput] = useState(
+    profile.preferredLocations.join(", ")
+  );
+
+  const handleAddSkill = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!skillInput.trim()) return;
+    addSkill(skillInput, proficiencyInput);
+    setSkillInput("");
+  };
+
+  const handleLocationsBlur = () => {
+    updateProfile({
+      preferredLocations: locationsInput
+        .split(",")
+        .map((location) => location.trim())
+        .filter((location) => location.length > 0),
+    });
+  };
+
+  return (
+    <details className="p-6 bg-white shadow-lg rounded-2xl">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">
+        👤 My Profile{" "}
+        <span className="text-gray-400 font-normal">
+          ({profile.skills.length} skills) — used to score how well each job
+          fits
+        </span>
+      </summary>
+
+      <div className="mt-4 space-y-6">
+        {/* Skills */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Skills</h4>
+          {profile.skills.length > 0 && (
+            <ul className="flex flex-wrap gap-2 mb-3">
+              {profile.skills.map((skill) => (
+                <li
+                  key={skill.name}
+                  className="flex items-center gap-1 pl-3 pr-1 py-1 bg-blue-50 border border-blue-200 rounded-full text-sm"
+                >
+                  <span className="text-blue-900">{skill.name}</span>
+                  <select
+                    value={skill.proficiency}
+                    onChange={(e) =>
+                      updateSkill(
+                        skill.name,
+                        e.target.value as SkillProficiency
+                      )
+                    }
+                    aria-label={`${skill.name} proficiency`}
+                    className="text-xs bg-transparent text-blue-700 focus:outline-none"
+                  >
+                    {PROFICIENCIES.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => removeSkill(skill.name)}
+                    className="px-1 text-blue-400 hover:text-blue-700"
+                    aria-label={`Remove ${skill.name}`}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddSkill} className="flex gap-2">
+            <input
+              type="text"
+              value={skillInput}
+              onChange={(e) => setSkillInput(e.target.value)}
+              placeholder="Add a skill, e.g. React"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={proficiencyInput}
+              onChange={(e) =>
+                setProficiencyInput(e.target.value as SkillProficiency)
+              }
+              aria-label="Proficiency"
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              {PROFICIENCIES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!skillInput.trim()}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          {/* Preferred locations */}
+          <label className="text-sm text-gray-700">
+            <span className="block font-semibold text-gray-900 mb-1">
+              Preferred locations
+            </span>
+            <input
+              type="text"
+              value={locationsInput}
+              onChange={(e) => setLocationsInput(e.target.value)}
+              onBlur={handleLocationsBlur}
+              placeholder="Remote, Berlin, ..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+
+          {/* Target experience level */}
+          <label className="text-sm text-gray-700">
+            <span className="block font-semibold text-gray-900 mb-1">
+              Target experience level
+            </span>
+            <select
+              value={profile.targetExperienceLevel}
+              onChange={(e) =>
+                updateProfile({ targetExperienceLevel: e.target.value })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Any</option>
+              {EXPERIENCE_LEVELS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {/* Minimum rate */}
+          <div className="text-sm text-gray-700">
+            <span className="block font-semibold text-gray-900 mb-1">
+              Minimum rate
+            </span>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                value={profile.minimumRate ?? ""}
+                onChange={(e) =>
+                  updateProfile({
+                    minimumRate:
+                      e.target.value === "" ? null : Number(e.target.value),
+                  })
+                }
+                aria-label="Minimum rate"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={profile.minimumRatePeriod}
+                onChange={(e) =>
+                  updateProfile({
+                    minimumRatePeriod: e.target.value as SalaryPeriod,
+                  })
+                }
+                aria-label="Minimum rate period"
+                className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {RATE_PERIODS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <SkillAliasEditor />
+      </div>
+    </details>
+  );
+}
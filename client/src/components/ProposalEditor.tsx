@@ -0,0 +1,376 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Job } from "../types/index.js";
+import { useProfileStore } from "../store/useProfileStore";
+import { useProposalStore } from "../store/useProposalStore";
+import { useSkillTaxonomyStore } from "../store/useSkillTaxonomyStore";
+import { downloadFile } from "../utils/export";
+import { scoreJob } from "../utils/matchScore";
+import { evaluateSnippets } from "../utils/snippets";
+import {
+  countWords,
+  fillProposalTemplate,
+  getProposalValues,
+  PROPOSAL_PLACEHOLDERS,
+  PROPOSAL_PLATFORMS,
+  proposalFilename,
+  proposalToMarkdown,
+} from "../utils/proposal";
+
+interface ProposalEditorProps {
+  job: Job;
+}
+
+// Typing pauses this long before the draft is saved
+const AUTOSAVE_MS = 800;
+
+const buttonClass =
+  "px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+const formatTime = (iso: string) =>
+  `${new Date(iso).toLocaleDateString()} ${new Date(iso).toLocaleTimeString()}`;
+
+export default function ProposalEditor({ job }: ProposalEditorProps) {
+  const {
+    template,
+    setTemplate,
+    resetTemplate,
+    platform,
+    setPlatform,
+    saveDraft,
+    saveRevision,
+    restoreRevision,
+    deleteDraft,
+    snippets,
+  } = useProposalStore();
+  const draft = useProposalStore((state) => state.drafts[job.id]);
+  const profile = useProfileStore((state) => state.profile);
+  const skillResolver = useSkillTaxonomyStore((state) => state.getResolver());
+
+  // What the template gives for this job, the starting text of a new
+  // draft, and the snippets that fire for it
+  const { seed, firing } = useMemo(() => {
+    const match =
+      profile.skills.length > 0
+        ? scoreJob(job, profile, undefined, skillResolver)
+        : null;
+    const values = getProposalValues(job, match);
+    const firing = job.extracted
+      ? evaluateSnippets(snippets, job.extracted, skillResolver)
+          .filter(({ fires, snippet }) => fires && snippet.text.trim())
+          .map(({ snippet }) => ({
+            ...snippet,
+            text: fillProposalTemplate(snippet.text, values).trim(),
+          }))
+      : [];
+    const seed = fillProposalTemplate(
+      template,
+      getProposalValues(
+        job,
+        match,
+        firing.map((snippet) => snippet.text)
+      )
+    );
+    return { seed, firing };
+  }, [job, profile, skillResolver, snippets, template]);
+
+  const [text, setText] = useState(() => draft?.text ?? seed);
+  // Until a draft is saved the text follows template and profile changes
+  const [previousSeed, setPreviousSeed] = useState(seed);
+  if (seed !== previousSeed) {
+    setPreviousSeed(seed);
+    if (!draft && text === previousSeed) setText(seed);
+  }
+  const [showTemplate, setShowTemplate] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const savedText = draft?.text ?? seed;
+  const dirty = text !== savedText;
+
+  // Autosave once typing pauses
+  useEffect(() => {
+    if (!dirty) return;
+    const timer = setTimeout(() => saveDraft(job.id, text), AUTOSAVE_MS);
+    return () => clearTimeout(timer);
+  }, [dirty, text, job.id, saveDraft]);
+
+  // ...and when leaving the page before it did
+  const pending = useRef<string | null>(null);
+  useEffect(() => {
+    pending.current = dirty ? text : null;
+  }, [dirty, text]);
+  useEffect(
+    () => () => {
+      if (pending.current !== null) saveDraft(job.id, pending.current);
+    },
+    [job.id, saveDraft]
+  );
+
+  // Opened from a job card's "Write a proposal" link
+  const sectionRef = useRef<HTMLElement>(null);
+  useEffect(() => {
+    if (window.location.hash === "#proposal") {
+      sectionRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const limit =
+    PROPOSAL_PLATFORMS.find((p) => p.value === platform)?.maxCharacters ?? null;
+  const words = countWords(text);
+  const overLimit = limit !== null && text.length > limit;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      // Clipboard access denied; the text is still there to select
+    }
+  };
+
+  // Start over from the template, keeping what was written as a revision
+  const handleRefill = () => {
+    if (draft) {
+      saveDraft(job.id, text);
+      saveRevision(job.id);
+    }
+    setText(seed);
+  };
+
+  const handleRestore = (index: number) => {
+    saveDraft(job.id, text);
+    restoreRevision(job.id, index);
+    setText(draft!.revisions[index].text);
+  };
+
+  // Put a snippet where the cursor is, as its own paragraph
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const handleInsert = (snippetText: string) => {
+    const at = textareaRef.current?.selectionStart ?? text.length;
+    const before = text.slice(0, at).trimEnd();
+    const after = text.slice(at).trimStart();
+    setText([before, snippetText, after].filter((part) => part).join("\n\n"));
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm("Discard this proposal and its revisions?")) return;
+    deleteDraft(job.id);
+    setText(seed);
+  };
+
+  return (
+    <section
+      id="proposal"
+      ref={sectionRef}
+      className="bg-white rounded-xl shadow-lg border border-gray-200 p-4 sm:p-6 space-y-4"
+    >
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <span>✍️</span>
+          <span>Proposal</span>
+        </h3>
+        <span className="text-xs text-gray-500">
+          {dirty
+            ? "Saving..."
+            : draft
+              ? `Saved ${formatTime(draft.updatedAt)}`
+              : "From your template"}
+        </span>
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        aria-label="Proposal text"
+        className="w-full h-72 p-4 border border-gray-300 rounded-lg text-sm leading-relaxed focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+
+      {/* Snippets whose rules fit this job */}
+      {firing.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">Insert snippet:</span>
+          {firing.map((snippet) => (
+            <button
+              key={snippet.id}
+              type="button"
+              onClick={() => handleInsert(snippet.text)}
+              disabled={text.includes(snippet.text)}
+              title={snippet.text}
+              className="px-2 py-1 bg-purple-50 text-purple-700 border border-purple-200 rounded-full hover:bg-purple-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              🧩 {snippet.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Counter against the platform's limit */}
+      <div className="flex items-center justify-between gap-2 flex-wrap text-xs text-gray-600">
+        <span className={overLimit ? "text-red-600 font-semibold" : ""}>
+          {words} {words === 1 ? "word" : "words"} • {text.length}
+          {limit !== null && ` / ${limit}`} characters
+          {overLimit && ` (${text.length - limit} over)`}
+        </span>
+        <label className="flex items-center gap-2">
+          Limit for
+          <select
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg"
+          >
+            {PROPOSAL_PLATFORMS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleCopy}
+          disabled={!text.trim()}
+          className={buttonClass}
+        >
+          {copied ? "✓ Copied" : "📋 Copy"}
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            downloadFile(text, proposalFilename(job, "txt"), "text/plain")
+          }
+          disabled={!text.trim()}
+          className={buttonClass}
+        >
+          Export .txt
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            downloadFile(
+              proposalToMarkdown(job, text),
+              proposalFilename(job, "md"),
+              "text/markdown"
+            )
+          }
+          disabled={!text.trim()}
+          className={buttonClass}
+        >
+          Export .md
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            saveDraft(job.id, text);
+            saveRevision(job.id);
+          }}
+          disabled={!text.trim()}
+          className={buttonClass}
+        >
+          Save revision
+        </button>
+        <button
+          type="button"
+          onClick={handleRefill}
+          disabled={text === seed}
+          className={buttonClass}
+        >
+          Refill from template
+        </button>
+        {draft && (
+          <button
+            type="button"
+            onClick={handleDiscard}
+            className="px-3 py-1 text-sm text-red-600 hover:text-red-800"
+          >
+            Discard
+          </button>
+        )}
+      </div>
+
+      {/* Revision history, newest first */}
+      {draft && draft.revisions.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-700 font-medium">
+            Revisions ({draft.revisions.length})
+          </summary>
+          <ul className="mt-2 space-y-2">
+            {draft.revisions
+              .map((revision, index) => ({ revision, index }))
+              .reverse()
+              .map(({ revision, index }) => (
+                <li
+                  key={revision.savedAt + index}
+                  className="p-2 bg-gray-50 rounded-lg border border-gray-200"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-600">
+                      {formatTime(revision.savedAt)} •{" "}
+                      {countWords(revision.text)} words
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(index)}
+                      disabled={revision.text === text}
+                      className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                    >
+                      Restore
+                    </button>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-700 line-clamp-2 whitespace-pre-line">
+                    {revision.text}
+                  </p>
+                </li>
+              ))}
+          </ul>
+        </details>
+      )}
+
+      {/* The template every new proposal starts from */}
+      <div className="text-sm">
+        <button
+          type="button"
+          onClick={() => setShowTemplate(!showTemplate)}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          {showTemplate ? "Hide template" : "Edit template"}
+        </button>
+        {showTemplate && (
+          <div className="mt-2 space-y-2">
+            <textarea
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              aria-label="Proposal template"
+              className="w-full h-48 p-3 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="flex flex-wrap gap-1 text-xs">
+              {PROPOSAL_PLACEHOLDERS.map(({ key, description }) => (
+                <code
+                  key={key}
+                  title={description}
+                  className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded"
+                >
+                  {`{{${key}}}`}
+                </code>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={resetTemplate}
+              className="text-xs text-gray-600 hover:text-gray-900"
+            >
+              Reset to default template
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,51 @@
+import { useEffect } from "react";
+import { useJobStore } from "../store/useJobStore";
+import { useReminderStore } from "../store/useReminderStore";
+import { getDueReminders } from "../utils/reminders";
+import { jobPath, navigate } from "../utils/router";
+
+// How often due reminders are checked while the tab is open
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+const canNotify = () =>
+  typeof Notification !== "undefined" && Notification.permission === "granted";
+
+// Shows a browser notification for each follow-up or deadline as it comes
+// due. Renders nothing; permission is asked for in the upcoming panel.
+export default function ReminderNotifier() {
+  useEffect(() => {
+    const check = () => {
+      if (!canNotify()) return;
+      const { notified, markNotified } = useReminderStore.getState();
+      const due = getDueReminders(
+        useJobStore.getState().jobs,
+        new Set(notified)
+      );
+      if (due.length === 0) return;
+
+      for (const reminder of due) {
+        const notification = new Notification(
+          reminder.kind === "deadline"
+            ? "Application deadline coming up"
+            : "Time to follow up",
+          {
+            body: `${reminder.label} — ${reminder.due.toLocaleString()}`,
+            tag: reminder.key,
+          }
+        );
+        notification.onclick = () => {
+          window.focus();
+          navigate(jobPath(reminder.jobId));
+          notification.close();
+        };
+      }
+      markNotified(due.map((reminder) => reminder.key));
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return null;
+}
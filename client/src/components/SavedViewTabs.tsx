@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useJobStore } from "../store/useJobStore";
+
+export default function SavedViewTabs() {
+  const {
+    jobs,
+    filters,
+    sortField,
+    sortOrder,
+    savedViews,
+    activeViewId,
+    saveView,
+    openView,
+    updateView,
+    renameView,
+    deleteView,
+    getViewCounts,
+  } = useJobStore();
+  const [newViewName, setNewViewName] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const activeView = savedViews.find((view) => view.id === activeViewId);
+  const isModified =
+    !!activeView &&
+    (JSON.stringify(activeView.filters) !== JSON.stringify(filters) ||
+      activeView.sortField !== sortField ||
+      activeView.sortOrder !== sortOrder);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newViewName?.trim()) saveView(newViewName);
+    setNewViewName(null);
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex items-center gap-2 px-3 py-1.5 text-sm rounded-t-lg border-b-2 transition-colors ${
+      active
+        ? "border-blue-600 text-blue-700 bg-white font-semibold"
+        : "border-transparent text-gray-600 hover:text-gray-900 hover:bg-white/60"
+    }`;
+
+  return (
+    <div className="flex items-end gap-1 flex-wrap border-b border-gray-200">
+      <button
+        type="button"
+        onClick={() => openView(null)}
+        className={tabClass(activeViewId === null)}
+      >
+        All jobs
+        <span className="px-1.5 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+          {jobs.length}
+        </span>
+      </button>
+
+      {savedViews.map((view) => {
+        const { total, newCount } = getViewCounts(view.id);
+        const isActive = view.id === activeViewId;
+        return renaming === view.id ? (
+          <form
+            key={view.id}
+            onSubmit={(e) => {
+              e.preventDefault();
+              setRenaming(null);
+            }}
+          >
+            <input
+              autoFocus
+              defaultValue={view.name}
+              onBlur={(e) => {
+                renameView(view.id, e.target.value);
+                setRenaming(null);
+              }}
+              aria-label="View name"
+              className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </form>
+        ) : (
+          <button
+            key={view.id}
+            type="button"
+            onClick={() => openView(view.id)}
+            onDoubleClick={() => setRenaming(view.id)}
+            title="Double-click to rename"
+            className={tabClass(isActive)}
+          >
+            {view.name}
+            {isActive && isModified && (
+              <span className="text-gray-400" title="Filters changed">
+                •
+              </span>
+            )}
+            <span className="px-1.5 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+              {total}
+            </span>
+            {newCount > 0 && !isActive && (
+              <span className="px-1.5 py-0.5 text-xs rounded-full bg-green-100 text-green-700">
+                {newCount} new
+              </span>
+            )}
+          </button>
+        );
+      })}
+
+      {newViewName === null ? (
+        <button
+          type="button"
+          onClick={() => setNewViewName("")}
+          className="px-3 py-1.5 text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Save view
+        </button>
+      ) : (
+        <form onSubmit={handleSave} className="flex items-center gap-1 pb-1">
+          <input
+            autoFocus
+            value={newViewName}
+            onChange={(e) => setNewViewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setNewViewName(null)}
+            placeholder="View name"
+            aria-label="New view name"
+            className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-2 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </form>
+      )}
+
+      {activeView && (
+        <div className="ml-auto flex items-center gap-2 pb-1 text-sm">
+          {isModified && (
+            <button
+              type="button"
+              onClick={() => updateView(activeView.id)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Update view
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => deleteView(activeView.id)}
+            className="text-red-500 hover:text-red-700"
+          >
+            Delete view
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useSkillTaxonomyStore } from "../store/useSkillTaxonomyStore";
+import {
+  SKILL_CATEGORIES,
+  SKILL_TAXONOMY,
+  type SkillCategory,
+} from "../utils/skillTaxonomy";
+
+export default function SkillAliasEditor() {
+  const { customAliases, addAlias, removeAlias } = useSkillTaxonomyStore();
+  const [aliasInput, setAliasInput] = useState("");
+  const [canonicalInput, setCanonicalInput] = useState("");
+  const [categoryInput, setCategoryInput] = useState<SkillCategory | "">("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!aliasInput.trim() || !canonicalInput.trim()) return;
+
+    addAlias({
+      alias: aliasInput,
+      canonical: canonicalInput,
+      category: categoryInput || undefined,
+    });
+    setAliasInput("");
+    setCanonicalInput("");
+    setCategoryInput("");
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-1">
+        Skill aliases
+      </h4>
+      <p className="text-xs text-gray-500 mb-2">
+        Treat a skill name as another, e.g. "RxJS" → "Reactive Programming".
+        Built-in aliases already cover common spellings like "JS" or "React.js".
+      </p>
+
+      {customAliases.length > 0 && (
+        <ul className="mb-3 space-y-1">
+          {customAliases.map(({ alias, canonical, category }) => (
+            <li
+              key={alias}
+              className="flex items-center gap-2 text-sm text-gray-700"
+            >
+              <span className="font-mono">{alias}</span>
+              <span className="text-gray-400">→</span>
+              <span className="font-medium">{canonical}</span>
+              {category && (
+                <span className="text-xs text-gray-400">({category})</span>
+              )}
+              <button
+                type="button"
+                onClick={() => removeAlias(alias)}
+                className="ml-auto text-gray-400 hover:text-gray-600"
+                aria-label={`Remove alias ${alias}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={aliasInput}
+          onChange={(e) => setAliasInput(e.target.value)}
+          placeholder="Alias"
+          aria-label="Alias"
+          className="flex-1 min-w-24 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <input
+          type="text"
+          list="canonical-skills"
+          value={canonicalInput}
+          onChange={(e) => setCanonicalInput(e.target.value)}
+          placeholder="Canonical skill"
+          aria-label="Canonical skill"
+          className="flex-1 min-w-24 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <datalist id="canonical-skills">
+          {SKILL_TAXONOMY.map(({ canonical }) => (
+            <option key={canonical} value={canonical} />
+          ))}
+        </datalist>
+        <select
+          value={categoryInput}
+          onChange={(e) =>
+            setCategoryInput(e.target.value as SkillCategory | "")
+          }
+          aria-label="Category"
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Category (optional)</option>
+          {SKILL_CATEGORIES.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!aliasInput.trim() || !canonicalInput.trim()}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useProposalStore } from "../store/useProposalStore";
+import type {
+  ExtractedField,
+  ProposalSnippet,
+  SnippetCondition,
+  SnippetOperator,
+} from "../types/index.js";
+import { SNIPPET_OPERATORS } from "../utils/snippets";
+import { EXTRACTED_FIELDS } from "../utils/sourceSpans";
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+const iconButtonClass =
+  "px-2 text-gray-500 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed";
+
+export default function SnippetLibrary() {
+  const { snippets, addSnippet, updateSnippet, removeSnippet, moveSnippet } =
+    useProposalStore();
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const updateCondition = (
+    snippet: ProposalSnippet,
+    index: number,
+    changes: Partial<SnippetCondition>
+  ) =>
+    updateSnippet(snippet.id, {
+      conditions: snippet.conditions.map((condition, i) =>
+        i === index ? { ...condition, ...changes } : condition
+      ),
+    });
+
+  return (
+    <details className="p-6 bg-white shadow-lg rounded-2xl">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">
+        🧩 Proposal Snippets{" "}
+        <span className="text-gray-400 font-normal">
+          ({snippets.length}) — reusable paragraphs added to proposals when
+          their rules fit the job
+        </span>
+      </summary>
+
+      <div className="mt-4 space-y-3">
+        <p className="text-xs text-gray-500">
+          Snippets fill the {"{{snippets}}"} placeholder of your proposal
+          template, in this order. A snippet without rules is always used.
+          Snippet text can use the same placeholders as the template.
+        </p>
+
+        <ul className="space-y-2">
+          {snippets.map((snippet, index) => (
+            <li
+              key={snippet.id}
+              className="border border-gray-200 rounded-lg bg-gray-50"
+            >
+              <div className="flex items-center gap-2 p-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setOpenId(openId === snippet.id ? null : snippet.id)
+                  }
+                  className="flex-1 text-left text-sm text-gray-900"
+                  aria-expanded={openId === snippet.id}
+                >
+                  <span className="font-medium">{snippet.name}</span>{" "}
+                  <span className="text-xs text-gray-500">
+                    {snippet.conditions.length === 0
+                      ? "always"
+                      : `${snippet.conditions.length} ${
+                          snippet.conditions.length === 1 ? "rule" : "rules"
+                        }`}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveSnippet(snippet.id, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${snippet.name} up`}
+                  className={iconButtonClass}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveSnippet(snippet.id, 1)}
+                  disabled={index === snippets.length - 1}
+                  aria-label={`Move ${snippet.name} down`}
+                  className={iconButtonClass}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeSnippet(snippet.id)}
+                  aria-label={`Delete ${snippet.name}`}
+                  className="px-2 text-red-500 hover:text-red-700"
+                >
+                  ×
+                </button>
+              </div>
+
+              {openId === snippet.id && (
+                <div className="p-3 pt-0 space-y-3">
+                  <input
+                    type="text"
+                    value={snippet.name}
+                    onChange={(e) =>
+                      updateSnippet(snippet.id, { name: e.target.value })
+                    }
+                    aria-label="Snippet name"
+                    className={`${inputClass} w-full`}
+                  />
+                  <textarea
+                    value={snippet.text}
+                    onChange={(e) =>
+                      updateSnippet(snippet.id, { text: e.target.value })
+                    }
+                    placeholder="Text added to the proposal"
+                    aria-label="Snippet text"
+                    className={`${inputClass} w-full h-24`}
+                  />
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-xs text-gray-600">
+                      <span>Include when</span>
+                      {snippet.conditions.length > 1 ? (
+                        <select
+                          value={snippet.match}
+                          onChange={(e) =>
+                            updateSnippet(snippet.id, {
+                              match: e.target.value as ProposalSnippet["match"],
+                            })
+                          }
+                          className={inputClass}
+                        >
+                          <option value="all">all rules hold</option>
+                          <option value="any">any rule holds</option>
+                        </select>
+                      ) : (
+                        <span>
+                          {snippet.conditions.length === 0
+                            ? "always"
+                            : "this rule holds"}
+                        </span>
+                      )}
+                    </div>
+                    {snippet.conditions.map((condition, conditionIndex) => (
+                      <div
+                        key={conditionIndex}
+                        className="flex flex-wrap items-center gap-2"
+                      >
+                        <select
+                          value={condition.field}
+                          onChange={(e) =>
+                            updateCondition(snippet, conditionIndex, {
+                              field: e.target.value as ExtractedField,
+                            })
+                          }
+                          aria-label="Field"
+                          className={inputClass}
+                        >
+                          {EXTRACTED_FIELDS.map(({ field, label }) => (
+                            <option key={field} value={field}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={condition.operator}
+                          onChange={(e) =>
+                            updateCondition(snippet, conditionIndex, {
+                              operator: e.target.value as SnippetOperator,
+                            })
+                          }
+                          aria-label="Operator"
+                          className={inputClass}
+                        >
+                          {SNIPPET_OPERATORS.map(({ value, label }) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={condition.value}
+                          onChange={(e) =>
+                            updateCondition(snippet, conditionIndex, {
+                              value: e.target.value,
+                            })
+                          }
+                          placeholder="(empty)"
+                          aria-label="Value"
+                          className={`${inputClass} flex-1 min-w-32`}
+                        />
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateSnippet(snippet.id, {
+                              conditions: snippet.conditions.filter(
+                                (_, i) => i !== conditionIndex
+                              ),
+                            })
+                          }
+                          aria-label="Remove rule"
+                          className="px-2 text-red-500 hover:text-red-700"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateSnippet(snippet.id, {
+                          conditions: [
+                            ...snippet.conditions,
+                            {
+                              field: "skills",
+                              operator: "contains",
+                              value: "",
+                            },
+                          ],
+                        })
+                      }
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      + Add rule
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <button
+          type="button"
+          onClick={() => setOpenId(addSnippet())}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Add Snippet
+        </button>
+      </div>
+    </details>
+  );
+}
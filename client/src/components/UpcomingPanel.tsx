@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useJobStore } from "../store/useJobStore";
+import { downloadFile } from "../utils/export";
+import {
+  formatDueIn,
+  getUpcomingReminders,
+  remindersToIcs,
+  UPCOMING_DAYS,
+} from "../utils/reminders";
+import { jobPath, navigate } from "../utils/router";
+
+// Relative times ("in 2 hours") are refreshed this often
+const REFRESH_MS = 60 * 1000;
+
+const notificationsSupported = typeof Notification !== "undefined";
+
+export default function UpcomingPanel() {
+  const { jobs, setJobDates } = useJobStore();
+  const [now, setNow] = useState(() => new Date());
+  const [permission, setPermission] = useState(() =>
+    notificationsSupported ? Notification.permission : "denied"
+  );
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const upcoming = getUpcomingReminders(jobs, now);
+  const withDates = jobs.filter((job) => job.deadline || job.followUpAt);
+  if (withDates.length === 0) return null;
+
+  const exportCalendar = () =>
+    downloadFile(
+      remindersToIcs(withDates),
+      `freelance-deadlines-${now.toISOString().substring(0, 10)}.ics`,
+      "text/calendar"
+    );
+
+  return (
+    <div className="p-4 bg-white/70 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between gap-2 flex-wrap mb-2">
+        <h3 className="text-sm font-semibold text-gray-900">
+          ⏰ Upcoming{" "}
+          <span className="font-normal text-gray-500">
+            (next {UPCOMING_DAYS} days)
+          </span>
+        </h3>
+        <div className="flex items-center gap-2">
+          {notificationsSupported && permission === "default" && (
+            <button
+              type="button"
+              onClick={async () =>
+                setPermission(await Notification.requestPermission())
+              }
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              🔔 Enable notifications
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={exportCalendar}
+            className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            📅 Export .ics
+          </button>
+        </div>
+      </div>
+
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing due soon.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {upcoming.map((reminder) => {
+            const overdue = reminder.due.getTime() < now.getTime();
+            return (
+              <li
+                key={reminder.key}
+                className="flex items-center justify-between gap-2 py-2 text-sm"
+              >
+                <a
+                  href={jobPath(reminder.jobId)}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    navigate(jobPath(reminder.jobId));
+                  }}
+                  className="min-w-0 truncate text-gray-900 hover:text-blue-700"
+                >
+                  <span className="mr-2">
+                    {reminder.kind === "deadline" ? "📌" : "📨"}
+                  </span>
+                  {reminder.kind === "deadline" ? "Deadline" : "Follow up"}:{" "}
+                  {reminder.label}
+                </a>
+                <span className="flex items-center gap-2 shrink-0">
+                  <span
+                    className={`text-xs ${
+                      overdue ? "text-red-600 font-semibold" : "text-gray-500"
+                    }`}
+                    title={reminder.due.toLocaleString()}
+                  >
+                    {formatDueIn(reminder.due, now)}
+                  </span>
+                  {reminder.kind === "followUp" && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setJobDates(reminder.jobId, { followUpAt: undefined })
+                      }
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      Done
+                    </button>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
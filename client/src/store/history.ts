@@ -0,0 +1,72 @@
+import type { Job } from "../types/index.js";
+import type { JobFilters } from "./useJobStore";
+
+// A job taken out of the list, and where it was, so it can be put back
+export interface RemovedJob {
+  job: Job;
+  index: number;
+}
+
+// The fields of one job a change touched, before and after it
+export interface JobPatch {
+  id: number;
+  before: Partial<Job>;
+  after: Partial<Job>;
+}
+
+// One undoable step. Entries are plain data so they show up readably in
+// the devtools; the store knows how to apply each type.
+export type HistoryEntry = {
+  label: string;
+  // When the entry was recorded, for coalescing rapid changes
+  at: number;
+} & (
+  | { type: "jobs"; patches: JobPatch[] }
+  | { type: "filters"; before: JobFilters; after: JobFilters }
+  | { type: "delete"; removed: RemovedJob[] }
+);
+
+// Oldest entries are dropped past this
+export const MAX_HISTORY = 100;
+
+// Filter changes closer together than this (typing in a filter box) are
+// undone as one step
+export const FILTER_COALESCE_MS = 1000;
+
+/**
+ * What changed between two versions of the job list, job by job. Jobs
+ * added or removed are not included; deletes have their own entries.
+ */
+export function diffJobs(before: Job[], after: Job[]): JobPatch[] {
+  const afterById = new Map(after.map((job) => [job.id, job]));
+  const patches: JobPatch[] = [];
+  for (const previous of before) {
+    const next = afterById.get(previous.id);
+    if (!next || next === previous) continue;
+
+    const patch: JobPatch = { id: previous.id, before: {}, after: {} };
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    for (const key of keys as Set<keyof Job>) {
+      if (previous[key] !== next[key]) {
+        Object.assign(patch.before, { [key]: previous[key] });
+        Object.assign(patch.after, { [key]: next[key] });
+      }
+    }
+    if (Object.keys(patch.before).length > 0) patches.push(patch);
+  }
+  return patches;
+}
+
+// Apply one side of the patches, leaving fields they didn't touch (e.g. a
+// body loaded since) as they are
+export function applyJobPatches(
+  jobs: Job[],
+  patches: JobPatch[],
+  side: "before" | "after"
+): Job[] {
+  const patchById = new Map(patches.map((patch) => [patch.id, patch]));
+  return jobs.map((job) => {
+    const patch = patchById.get(job.id);
+    return patch ? { ...job, ...patch[side] } : job;
+  });
+}
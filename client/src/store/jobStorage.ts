@@ -0,0 +1,219 @@
+import {
+  createJSONStorage,
+  type PersistStorage,
+  type StorageValue,
+} from "zustand/middleware";
+import type { Job } from "../types/index.js";
+
+// Job summaries and bodies live in separate object stores so the dashboard
+// can start from the summaries and pull the large text fields in afterwards
+type JobSummary = Omit<Job, "originalText" | "extractedJson" | "bodyPending">;
+
+export interface JobBody {
+  id: number;
+  originalText: string;
+  extractedJson: string;
+}
+
+// Everything the store persists except the jobs themselves (state.jobs is
+// always empty), plus the job order, which the object stores don't keep
+interface StateRecord<S> {
+  state: S;
+  jobIds: number[];
+  version?: number;
+}
+
+const DB_NAME = "freelance-finder";
+const STATE_STORE = "state";
+const JOB_STORE = "jobs";
+const BODY_STORE = "jobBodies";
+
+// Schema migrations: entry N upgrades the database from version N to N + 1.
+// Append new entries; never edit shipped ones.
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  (db) => {
+    db.createObjectStore(STATE_STORE);
+    db.createObjectStore(JOB_STORE, { keyPath: "id" });
+    db.createObjectStore(BODY_STORE, { keyPath: "id" });
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](request.result);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Only the summary fields decide whether a job's summary needs rewriting
+const sameSummary = (a: Job, b: Job) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (key === "originalText" || key === "extractedJson") continue;
+    if (key === "bodyPending") continue;
+    if (a[key as keyof Job] !== b[key as keyof Job]) return false;
+  }
+  return true;
+};
+
+/**
+ * Read the bodies of the given jobs from the database.
+ */
+export async function readJobBodies(ids: number[]): Promise<JobBody[]> {
+  const db = await openDatabase();
+  const store = db.transaction(BODY_STORE).objectStore(BODY_STORE);
+  const bodies = await Promise.all(
+    ids.map((id) => requestResult<JobBody | undefined>(store.get(id)))
+  );
+  return bodies.filter((body): body is JobBody => body !== undefined);
+}
+
+/**
+ * zustand persist storage backed by IndexedDB. Jobs are written one record
+ * per job, and only when they change; on load they come back as summaries
+ * with bodyPending set. State saved by older versions under the same
+ * localStorage key is moved over on first load.
+ */
+export function createJobStorage<S extends { jobs: Job[] }>():
+  PersistStorage<S> | undefined {
+  // Some private browsing modes have no IndexedDB
+  if (typeof indexedDB === "undefined") {
+    return createJSONStorage<S>(() => localStorage);
+  }
+
+  // Jobs as last written, to diff against on the next write
+  let persistedJobs = new Map<number, Job>();
+  // Writes before the first load would clobber the stored job order
+  let loaded = false;
+
+  const storage: PersistStorage<S> = {
+    getItem: async (name) => {
+      const db = await openDatabase();
+      const record = await requestResult<StateRecord<S> | undefined>(
+        db.transaction(STATE_STORE).objectStore(STATE_STORE).get(name)
+      );
+
+      if (!record) {
+        const legacy = localStorage.getItem(name);
+        loaded = true;
+        if (!legacy) return null;
+
+        const value: StorageValue<S> = JSON.parse(legacy);
+        await storage.setItem(name, value);
+        localStorage.removeItem(name);
+        return value;
+      }
+
+      const summaries = await requestResult<JobSummary[]>(
+        db.transaction(JOB_STORE).objectStore(JOB_STORE).getAll()
+      );
+      const summaryById = new Map(summaries.map((job) => [job.id, job]));
+      const jobs = record.jobIds.flatMap((id): Job[] => {
+        const summary = summaryById.get(id);
+        return summary
+          ? [
+              {
+                ...summary,
+                originalText: "",
+                extractedJson: "",
+                bodyPending: true,
+              },
+            ]
+          : [];
+      });
+
+      persistedJobs = new Map(jobs.map((job) => [job.id, job]));
+      loaded = true;
+      return {
+        state: { ...record.state, jobs },
+        version: record.version,
+      };
+    },
+
+    setItem: async (name, value) => {
+      if (!loaded) return;
+      const { jobs } = value.state;
+      const db = await openDatabase();
+      const transaction = db.transaction(
+        [STATE_STORE, JOB_STORE, BODY_STORE],
+        "readwrite"
+      );
+      const jobStore = transaction.objectStore(JOB_STORE);
+      const bodyStore = transaction.objectStore(BODY_STORE);
+
+      const current = new Map(jobs.map((job) => [job.id, job]));
+      for (const job of jobs) {
+        const previous = persistedJobs.get(job.id);
+        if (previous === job) continue;
+
+        const { originalText, extractedJson, bodyPending, ...summary } = job;
+        if (!previous || !sameSummary(previous, job)) {
+          jobStore.put(summary);
+        }
+        // Bodies loaded from the database are already stored
+        if (
+          !bodyPending &&
+          !previous?.bodyPending &&
+          (previous?.originalText !== originalText ||
+            previous?.extractedJson !== extractedJson)
+        ) {
+          bodyStore.put({ id: job.id, originalText, extractedJson });
+        }
+      }
+      for (const id of persistedJobs.keys()) {
+        if (!current.has(id)) {
+          jobStore.delete(id);
+          bodyStore.delete(id);
+        }
+      }
+
+      const record: StateRecord<S> = {
+        state: { ...value.state, jobs: [] },
+        jobIds: jobs.map((job) => job.id),
+        version: value.version,
+      };
+      transaction.objectStore(STATE_STORE).put(record, name);
+      persistedJobs = current;
+      await transactionDone(transaction);
+    },
+
+    removeItem: async (name) => {
+      const db = await openDatabase();
+      const transaction = db.transaction(
+        [STATE_STORE, JOB_STORE, BODY_STORE],
+        "readwrite"
+      );
+      transaction.objectStore(STATE_STORE).delete(name);
+      transaction.objectStore(JOB_STORE).clear();
+      transaction.objectStore(BODY_STORE).clear();
+      persistedJobs = new Map();
+      await transactionDone(transaction);
+    },
+  };
+
+  return storage;
+}
@@ -0,0 +1,274 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { RATE_LIMIT_INTERVAL_MS } from "../api/axios.config";
+import type { BatchListing } from "../utils/batchInput";
+import type { SimilarJob } from "../utils/duplicates";
+import { onJobIdChange, useJobStore } from "./useJobStore";
+
+// pendingSync: analyzed while offline, so the job waits in the offline
+// sync queue and the item is only done once that sync succeeds
+export type QueueItemStatus =
+  | "pending"
+  | "processing"
+  | "pendingSync"
+  | "done"
+  | "failed"
+  | "cancelled"
+  | "duplicate";
+
+export interface QueueItem {
+  id: string;
+  label: string;
+  text: string;
+  status: QueueItemStatus;
+  error?: string;
+  jobId?: number;
+  // Jobs the listing looks like, while it waits for the user to decide
+  duplicates?: SimilarJob[];
+  // Analyze even though it looks like a job already there
+  allowDuplicate?: boolean;
+}
+
+interface AnalysisQueueState {
+  // State
+  items: QueueItem[];
+  running: boolean;
+  cancelRequested: boolean;
+
+  // Actions
+  enqueue: (listings: BatchListing[]) => void;
+  processQueue: () => Promise<void>;
+  cancelQueue: () => void;
+  retryItem: (id: string) => void;
+  retryFailed: () => void;
+  analyzeDuplicate: (id: string) => void;
+  removeItem: (id: string) => void;
+  clearFinished: () => void;
+
+  // Computed getters
+  getProgress: () => { completed: number; total: number };
+}
+
+let nextItemId = 0;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const useAnalysisQueueStore = create<AnalysisQueueState>()(
+  devtools(
+    (set, get) => {
+      const updateItem = (id: string, changes: Partial<QueueItem>) =>
+        set((state) => ({
+          items: state.items.map((item) =>
+            item.id === id ? { ...item, ...changes } : item
+          ),
+        }));
+
+      // A listing whose job is still waiting for the offline sync is
+      // retried by that sync instead of being analyzed a second time
+      const retrySync = (item: QueueItem) => {
+        const jobStore = useJobStore.getState();
+        const job = jobStore.jobs.find((j) => j.id === item.jobId);
+        if (job?.pendingSync !== "analyze") return false;
+        jobStore.resolveSyncConflict(job.id, "retry");
+        return true;
+      };
+
+      return {
+        // Initial state
+        items: [],
+        running: false,
+        cancelRequested: false,
+
+        // Add listings to the end of the queue and start processing
+        enqueue: (listings: BatchListing[]) => {
+          if (listings.length === 0) return;
+
+          const newItems: QueueItem[] = listings.map((listing) => ({
+            id: `queue-${Date.now()}-${nextItemId++}`,
+            label: listing.label,
+            text: listing.text,
+            status: "pending",
+          }));
+          set((state) => ({ items: [...state.items, ...newItems] }));
+          get().processQueue();
+        },
+
+        // Work through pending items one at a time, spaced to stay within
+        // the API rate limit so batch runs don't starve other requests
+        processQueue: async () => {
+          if (get().running) return;
+          set({ running: true, cancelRequested: false });
+
+          let lastStartedAt = 0;
+          for (;;) {
+            const next = get().items.find((item) => item.status === "pending");
+            if (!next || get().cancelRequested) break;
+
+            // Same check as a single listing, before spending an API call;
+            // earlier items of the batch count once they are analyzed
+            if (!next.allowDuplicate) {
+              const similar = await useJobStore
+                .getState()
+                .checkDuplicates(next.text);
+              if (similar.length > 0) {
+                updateItem(next.id, {
+                  status: "duplicate",
+                  duplicates: similar,
+                });
+                continue;
+              }
+            }
+
+            const wait = lastStartedAt + RATE_LIMIT_INTERVAL_MS - Date.now();
+            if (wait > 0) await sleep(wait);
+            if (get().cancelRequested) break;
+
+            updateItem(next.id, { status: "processing", error: undefined });
+            lastStartedAt = Date.now();
+
+            const jobStore = useJobStore.getState();
+            const job = await jobStore.analyzeJob(next.text);
+            if (job) {
+              updateItem(next.id, {
+                status: job.pendingSync === "analyze" ? "pendingSync" : "done",
+                jobId: job.id,
+              });
+            } else {
+              // Keep the error on the queue item instead of the input form
+              updateItem(next.id, {
+                status: "failed",
+                error:
+                  useJobStore.getState().analyzeError ??
+                  "Failed to analyze job",
+              });
+              jobStore.clearAnalyzeError();
+            }
+          }
+
+          set({ running: false, cancelRequested: false });
+        },
+
+        // Stop after the in-flight item and drop everything still waiting
+        cancelQueue: () =>
+          set((state) => ({
+            cancelRequested: state.running,
+            items: state.items.map((item) =>
+              item.status === "pending"
+                ? { ...item, status: "cancelled" }
+                : item
+            ),
+          })),
+
+        retryItem: (id: string) => {
+          const item = get().items.find((i) => i.id === id);
+          if (!item) return;
+          if (retrySync(item)) {
+            updateItem(id, { status: "pendingSync", error: undefined });
+            return;
+          }
+          updateItem(id, { status: "pending", error: undefined });
+          get().processQueue();
+        },
+
+        // Analyze a listing held back as a possible duplicate
+        analyzeDuplicate: (id: string) => {
+          updateItem(id, {
+            status: "pending",
+            duplicates: undefined,
+            allowDuplicate: true,
+          });
+          get().processQueue();
+        },
+
+        retryFailed: () => {
+          const retried = get().items.filter(
+            (item) => item.status === "failed" || item.status === "cancelled"
+          );
+          const syncing = new Set(
+            retried.filter(retrySync).map((item) => item.id)
+          );
+          set((state) => ({
+            items: state.items.map((item) =>
+              retried.includes(item)
+                ? {
+                    ...item,
+                    status: syncing.has(item.id) ? "pendingSync" : "pending",
+                    error: undefined,
+                  }
+                : item
+            ),
+          }));
+          get().processQueue();
+        },
+
+        removeItem: (id: string) =>
+          set((state) => ({
+            items: state.items.filter(
+              (item) => item.id !== id || item.status === "processing"
+            ),
+          })),
+
+        clearFinished: () =>
+          set((state) => ({
+            items: state.items.filter(
+              (item) =>
+                item.status === "pending" ||
+                item.status === "processing" ||
+                item.status === "pendingSync"
+            ),
+          })),
+
+        // Computed getters
+        getProgress: () => {
+          const items = get().items;
+          return {
+            completed: items.filter(
+              (item) =>
+                item.status !== "pending" &&
+                item.status !== "processing" &&
+                item.status !== "pendingSync"
+            ).length,
+            total: items.length,
+          };
+        },
+      };
+    },
+    {
+      name: "analysis-queue-store",
+    }
+  )
+);
+
+// Items point at the job they created, including after it synced
+onJobIdChange((from, to) =>
+  useAnalysisQueueStore.setState((state) => ({
+    items: state.items.map((item) =>
+      item.jobId === from ? { ...item, jobId: to } : item
+    ),
+  }))
+);
+
+// Items waiting for the offline sync finish with their job's sync: done once
+// it went through, failed if the server rejected it, cancelled if the user
+// discarded the job
+useJobStore.subscribe(({ jobs }) => {
+  const { items } = useAnalysisQueueStore.getState();
+  if (!items.some((item) => item.status === "pendingSync")) return;
+
+  const jobsById = new Map(jobs.map((job) => [job.id, job]));
+  const settle = (item: QueueItem): QueueItem => {
+    if (item.status !== "pendingSync" || item.jobId === undefined) return item;
+    const job = jobsById.get(item.jobId);
+    if (!job) return { ...item, status: "cancelled" };
+    if (job.syncConflict) {
+      return { ...item, status: "failed", error: job.syncConflict };
+    }
+    return job.pendingSync === "analyze" ? item : { ...item, status: "done" };
+  };
+
+  const settled = items.map(settle);
+  if (settled.some((item, i) => item !== items[i])) {
+    useAnalysisQueueStore.setState({ items: settled });
+  }
+});
@@ -0,0 +1,34 @@
+import { create } from "zustand";
+import { devtools, persist } from "zustand/middleware";
+import { DEFAULT_PAGE_PROXY } from "../api/pages";
+
+interface ImportSettingsState {
+  // State
+  // Proxy used to fetch postings by URL; see buildProxyUrl
+  proxyUrl: string;
+
+  // Actions
+  setProxyUrl: (proxyUrl: string) => void;
+}
+
+export const useImportSettingsStore = create<ImportSettingsState>()(
+  persist(
+    devtools(
+      (set) => ({
+        // Initial state
+        proxyUrl: DEFAULT_PAGE_PROXY,
+
+        setProxyUrl: (proxyUrl: string) => set({ proxyUrl }),
+      }),
+      {
+        name: "import-settings-store",
+      }
+    ),
+    {
+      name: "freelance-finder-import-settings",
+      partialize: (state) => ({
+        proxyUrl: state.proxyUrl,
+      }),
+    }
+  )
+);
@@ -0,0 +1,156 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job } from "../types/index.js";
+import { analyzeJob, deleteJob, getJobs } from "../api/jobs";
+import { defaultFilters, useJobStore } from "./useJobStore";
+
+vi.mock("../api/jobs", () => ({
+  analyzeJob: vi.fn(),
+  analyzeJobStreaming: vi.fn(),
+  getJobs: vi.fn(),
+  getJob: vi.fn(),
+  deleteJob: vi.fn(),
+}));
+
+const makeJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 5,
+  originalText: "Senior React developer wanted",
+  extractedJson: "",
+  extracted: null,
+  createdAt: "2026-10-01T12:00:00.000Z",
+  ...overrides,
+});
+
+const queuedAt = "2026-10-19T08:00:00.000Z";
+
+beforeEach(() => {
+  vi.mocked(getJobs).mockResolvedValue([]);
+  vi.mocked(deleteJob).mockResolvedValue();
+});
+
+describe("syncPendingOperations", () => {
+  it("keeps the next operation when the current one is dropped in flight", async () => {
+    let finishAnalysis: (job: Job) => void = () => {};
+    vi.mocked(analyzeJob).mockReturnValue(
+      new Promise((resolve) => (finishAnalysis = resolve))
+    );
+    useJobStore.setState({
+      isOnline: true,
+      syncing: false,
+      jobs: [
+        makeJob({ id: -1, pendingSync: "analyze" }),
+        makeJob({ id: 5, pendingSync: "delete" }),
+      ],
+      syncQueue: [
+        { type: "analyze", jobId: -1, queuedAt },
+        { type: "delete", jobId: 5, queuedAt },
+      ],
+    });
+
+    const sync = useJobStore.getState().syncPendingOperations();
+    await vi.waitFor(() => expect(analyzeJob).toHaveBeenCalled());
+
+    // Deleting the queued job removes its operation from the queue
+    await useJobStore.getState().commitDelete(-1);
+    expect(useJobStore.getState().syncQueue).toEqual([
+      { type: "delete", jobId: 5, queuedAt },
+    ]);
+
+    finishAnalysis(makeJob({ id: 42 }));
+    await sync;
+
+    // The queued delete still ran, and the server's copy of the deleted
+    // job was removed too
+    expect(deleteJob).toHaveBeenCalledWith(5);
+    expect(deleteJob).toHaveBeenCalledWith(42);
+    const state = useJobStore.getState();
+    expect(state.syncQueue).toEqual([]);
+    expect(state.jobs).toEqual([]);
+    expect(state.discardedJobIds).toEqual([]);
+  });
+});
+
+describe("getFacetCounts", () => {
+  const extracted = (experienceLevel: string, location: string) => ({
+    title: "Developer",
+    company: "Acme",
+    skills: [],
+    experienceLevel,
+    location,
+    salaryRange: "",
+    descriptionSummary: "",
+  });
+
+  beforeEach(() => {
+    useJobStore.setState({
+      jobs: [
+        makeJob({ id: 1, extracted: extracted("Senior", "Remote") }),
+        makeJob({ id: 2, extracted: extracted("Junior", "Remote") }),
+        makeJob({ id: 3, extracted: extracted("Senior", "Berlin") }),
+        makeJob({ id: 4, extracted: extracted("Junior", "Berlin") }),
+      ],
+      filters: {
+        ...defaultFilters,
+        experienceLevels: ["senior"],
+        locationTypes: ["remote"],
+      },
+    });
+  });
+
+  it("counts each facet over the jobs matching every other filter", () => {
+    const state = useJobStore.getState();
+    expect(state.getFilteredJobs().map((job) => job.id)).toEqual([1]);
+    const counts = state.getFacetCounts();
+    expect(counts.experienceLevels).toMatchObject({ senior: 1, entry: 1 });
+    expect(counts.locationTypes).toMatchObject({ remote: 1, "on-site": 1 });
+  });
+
+  it("reuses the filtered list until the jobs or filters change", () => {
+    const state = useJobStore.getState();
+    const filtered = state.getFilteredJobs();
+    expect(state.getFilteredJobs()).toBe(filtered);
+    expect(state.getFacetCounts()).toBe(state.getFacetCounts());
+
+    useJobStore.getState().setFilters({ experienceLevels: [] });
+    expect(useJobStore.getState().getFilteredJobs()).not.toBe(filtered);
+  });
+});
+
+describe("search sort", () => {
+  beforeEach(() => {
+    useJobStore.setState({
+      filters: defaultFilters,
+      sortField: "salary",
+      sortOrder: "asc",
+      sortBeforeSearch: null,
+    });
+  });
+
+  it("ranks by relevance while searching and restores the sort after", () => {
+    const { setFilters, clearFilters } = useJobStore.getState();
+    setFilters({ searchQuery: "react" });
+    expect(useJobStore.getState()).toMatchObject({
+      sortField: "relevance",
+      sortOrder: "desc",
+    });
+
+    clearFilters();
+    expect(useJobStore.getState()).toMatchObject({
+      sortField: "salary",
+      sortOrder: "asc",
+      sortBeforeSearch: null,
+    });
+  });
+
+  it("falls back to the default sort without a previous one", () => {
+    useJobStore.setState({
+      filters: { ...defaultFilters, searchQuery: "react" },
+      sortField: "relevance",
+    });
+    useJobStore.getState().setFilters({ searchQuery: "" });
+    expect(useJobStore.getState()).toMatchObject({
+      sortField: "createdAt",
+      sortOrder: "desc",
+    });
+  });
+});
@@ -1,20 +1,126 @@
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
-import type { Job } from "../types/index.js";
+import type {
+  ApplicationStatus,
+  ExtractedField,
+  ExtractedJobData,
+  ExtractionVersion,
+  Job,
+  SyncOperation,
+  SyncOperationType,
+} from "../types/index.js";
 import {
   analyzeJob as analyzeJobApi,
+  analyzeJobStreaming as analyzeJobStreamingApi,
   getJobs as getJobsApi,
+  getJob as getJobApi,
   deleteJob as deleteJobApi,
 } from "../api/jobs";
+import { ApiError, isNetworkError } from "../api/axios.config";
+import { getJobStatus } from "../utils/applicationStatus";
+import {
+  DEFAULT_SALARY_ASSUMPTIONS,
+  getJobAnnualSalary,
+  type SalaryAssumptions,
+} from "../utils/salary";
+import { scoreJob } from "../utils/matchScore";
+import {
+  normalizeExperienceLevel,
+  type ExperienceLevel,
+} from "../utils/experience";
+import { classifyLocation, type LocationType } from "../utils/location";
+import { getTopSkills, type CountEntry } from "../utils/insights";
+import { parseExtractedJson } from "../utils/sourceSpans";
+import { hasEnoughCoverage } from "../utils/jobPosting";
+import {
+  findSimilarJobs,
+  hasStoredShingles,
+  rememberShingles,
+  type SimilarJob,
+} from "../utils/duplicates";
+import { nextLocalJobId } from "../utils/import";
+import { jobPath, matchJobPath, navigate } from "../utils/router";
+import { getTagCounts, normalizeTags } from "../utils/tags";
+import {
+  createSearchIndex,
+  parseSearchQuery,
+  searchJobs,
+  updateSearchIndex,
+  type SearchIndex,
+} from "../utils/search";
+import { useProfileStore } from "./useProfileStore";
+import { useSkillTaxonomyStore } from "./useSkillTaxonomyStore";
+import { createJobStorage, readJobBodies } from "./jobStorage";
+import {
+  applyJobPatches,
+  diffJobs,
+  FILTER_COALESCE_MS,
+  MAX_HISTORY,
+  type HistoryEntry,
+  type RemovedJob,
+} from "./history";
 
-export type SortField = "createdAt" | "title" | "company" | "experienceLevel";
+export type SortField =
+  | "createdAt"
+  | "title"
+  | "company"
+  | "experienceLevel"
+  | "salary"
+  | "match"
+  | "relevance";
 export type SortOrder = "asc" | "desc";
+export type ViewMode = "grid" | "board" | "duplicates" | "insights";
+// Whether a job needs every selected skill or just one of them
+export type SkillMatchMode = "any" | "all";
 
 export interface JobFilters {
   searchQuery: string;
-  experienceLevel: string;
+  // Normalized levels; a job matches if it has any of them
+  experienceLevels: ExperienceLevel[];
+  // Free-text match against the job's location
   location: string;
+  locationTypes: LocationType[];
   skills: string[];
+  skillMatch: SkillMatchMode;
+  // Annualized salary bounds, compared against each job's parsed range
+  minSalary: number | null;
+  maxSalary: number | null;
+  // Only jobs analyzed within the last N days
+  postedWithinDays: number | null;
+  // Jobs with any of these tags
+  tags: string[];
+  // Jobs in this collection
+  collectionId: string | null;
+}
+
+// Everything that decides which page of which jobs the dashboard shows;
+// mirrored in the URL so it can be shared
+export interface DashboardState {
+  filters: JobFilters;
+  sortField: SortField;
+  sortOrder: SortOrder;
+  currentPage: number;
+  itemsPerPage: number;
+  // Job card shown expanded
+  expandedJobId: number | null;
+}
+
+// Named combination of filters and sort order, shown as a dashboard tab
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: JobFilters;
+  sortField: SortField;
+  sortOrder: SortOrder;
+  // Jobs analyzed after this count as new for the view
+  lastOpenedAt: string;
+}
+
+// User-defined group of jobs, e.g. "Q4 shortlist"; a job is in at most one
+export interface JobCollection {
+  id: string;
+  name: string;
+  createdAt: string;
 }
 
 interface JobState {
@@ -24,6 +130,7 @@ interface JobState {
   error: string | null;
   analyzing: boolean;
   analyzeError: string | null;
+  reanalyzingIds: number[];
 
   // Filtering
   filters: JobFilters;
@@ -31,18 +138,111 @@ interface JobState {
   // Sorting
   sortField: SortField;
   sortOrder: SortOrder;
+  // Sort in use before a search switched to relevance
+  sortBeforeSearch: { field: SortField; order: SortOrder } | null;
 
   // Pagination
   currentPage: number;
   itemsPerPage: number;
 
+  // Layout
+  viewMode: ViewMode;
+  expandedJobId: number | null;
+
+  // Salary normalization
+  salaryAssumptions: SalaryAssumptions;
+
+  // Hand-picked jobs for export and other multi-job actions
+  selectedJobIds: number[];
+
+  // Saved views; null while looking at ad-hoc filters
+  savedViews: SavedView[];
+  activeViewId: string | null;
+
+  collections: JobCollection[];
+
+  // Deleted jobs not yet deleted on the server, while undo is offered
+  pendingDeletion: RemovedJob[] | null;
+
+  // Undo/redo history, most recent last
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+
+  // Offline mode: server operations waiting to be replayed, oldest first
+  isOnline: boolean;
+  syncing: boolean;
+  syncQueue: SyncOperation[];
+  // Server jobs created only to re-analyze another job; kept out of the
+  // list until their queued delete goes through
+  discardedJobIds: number[];
+
   // Actions
   fetchJobs: () => Promise<void>;
-  analyzeJob: (jobText: string) => Promise<Job | null>;
-  deleteJob: (id: number) => Promise<void>;
+  fetchJob: (id: number) => Promise<Job | null>;
+  analyzeJob: (
+    jobText: string,
+    structured?: ExtractedJobData | null
+  ) => Promise<Job | null>;
+  reanalyzeJob: (id: number) => Promise<void>;
+  selectExtractionVersion: (id: number, index: number) => void;
+  deleteJob: (id: number) => void;
+  deleteJobs: (ids: number[]) => void;
+  undoDeleteJobs: () => void;
+  flushPendingDeletion: () => Promise<void>;
+  commitDelete: (id: number) => Promise<void>;
+  importJobs: (jobs: Job[]) => void;
+  loadJobBodies: (ids?: number[]) => Promise<Job[]>;
+  checkDuplicates: (text: string) => Promise<SimilarJob[]>;
   clearError: () => void;
   clearAnalyzeError: () => void;
 
+  // Sync actions
+  setOnline: (online: boolean) => void;
+  syncPendingOperations: () => Promise<void>;
+  resolveSyncConflict: (id: number, resolution: "retry" | "discard") => void;
+
+  // Application tracking actions
+  setJobStatus: (id: number, status: ApplicationStatus) => void;
+  setJobNotes: (id: number, notes: string) => void;
+  setJobDates: (
+    id: number,
+    dates: Partial<Pick<Job, "deadline" | "followUpAt">>
+  ) => void;
+  updateExtractedField: <F extends ExtractedField>(
+    id: number,
+    field: F,
+    value: ExtractedJobData[F]
+  ) => void;
+  revertExtractedField: (id: number, field: ExtractedField) => void;
+  setViewMode: (mode: ViewMode) => void;
+  setExpandedJobId: (id: number | null) => void;
+  applyDashboardState: (dashboard: DashboardState) => void;
+  setSalaryAssumptions: (assumptions: Partial<SalaryAssumptions>) => void;
+
+  // History actions
+  undo: () => void;
+  redo: () => void;
+
+  // Tag and collection actions
+  setJobTags: (id: number, tags: string[]) => void;
+  addTagsToJobs: (ids: number[], tags: string[]) => void;
+  moveJobsToCollection: (ids: number[], collectionId: string | null) => void;
+  createCollection: (name: string) => string | null;
+  renameCollection: (id: string, name: string) => void;
+  deleteCollection: (id: string) => void;
+
+  // Selection actions
+  toggleJobSelection: (id: number) => void;
+  setSelectedJobIds: (ids: number[]) => void;
+  clearSelection: () => void;
+
+  // Saved view actions
+  saveView: (name: string) => void;
+  openView: (id: string | null) => void;
+  updateView: (id: string) => void;
+  renameView: (id: string, name: string) => void;
+  deleteView: (id: string) => void;
+
   // Filter actions
   setFilters: (filters: Partial<JobFilters>) => void;
   clearFilters: () => void;
@@ -63,15 +263,624 @@ interface JobState {
   getSortedJobs: () => Job[];
   getPaginatedJobs: () => Job[];
   getTotalPages: () => number;
+  getSelectedJobs: () => Job[];
+  getViewCounts: (id: string) => { total: number; newCount: number };
+  getFacetCounts: () => FacetCounts;
+}
+
+// Jobs per filter option, each counted with all the other filters applied
+export interface FacetCounts {
+  experienceLevels: Record<ExperienceLevel, number>;
+  locationTypes: Record<LocationType, number>;
+  skills: CountEntry[];
+  tags: CountEntry[];
+  collections: Record<string, number>;
 }
 
-const defaultFilters: JobFilters = {
+export const defaultFilters: JobFilters = {
   searchQuery: "",
-  experienceLevel: "",
+  experienceLevels: [],
   location: "",
+  locationTypes: [],
   skills: [],
+  skillMatch: "any",
+  minSalary: null,
+  maxSalary: null,
+  postedWithinDays: null,
+  tags: [],
+  collectionId: null,
+};
+
+export const defaultDashboardState: DashboardState = {
+  filters: defaultFilters,
+  sortField: "createdAt",
+  sortOrder: "desc",
+  currentPage: 1,
+  itemsPerPage: 10,
+  expandedJobId: null,
+};
+
+// Fields the user corrected locally override fresh server data
+const keepEditedFields = (
+  extracted: ExtractedJobData | null,
+  local: Job
+): ExtractedJobData | null => {
+  if (!extracted || !local.extracted || !local.editedFields?.length) {
+    return extracted;
+  }
+  const edits = Object.fromEntries(
+    local.editedFields.map((field) => [field, local.extracted![field]])
+  );
+  return { ...extracted, ...edits };
+};
+
+// The analysis as first returned, to start a job's version history
+const initialVersion = (job: Job): ExtractionVersion => ({
+  // extractedJson holds the untouched AI output; extracted may be edited
+  extracted: { ...job.extracted!, ...parseExtractedJson(job.extractedJson) },
+  extractedJson: job.extractedJson,
+  analyzedAt: job.createdAt,
+  source: job.extractionSource,
+});
+
+// Switch a job to one of its versions, keeping hand corrections on top
+const withVersion = (job: Job, index: number): Job => {
+  const version = job.extractionVersions?.[index];
+  if (!version) return job;
+  return {
+    ...job,
+    extracted: keepEditedFields(version.extracted, job),
+    extractedJson: version.extractedJson,
+    extractionSource: version.source ?? "ai",
+    activeVersion: index,
+  };
+};
+
+// Put removed jobs back where they were, skipping any already back
+const restoreJobs = (jobs: Job[], removed: RemovedJob[]): Job[] => {
+  const restored = [...jobs];
+  const ids = new Set(jobs.map((job) => job.id));
+  for (const { job, index } of [...removed].sort((a, b) => a.index - b.index)) {
+    if (!ids.has(job.id)) restored.splice(index, 0, job);
+  }
+  return restored;
+};
+
+// Take jobs out of the list, remembering where they were
+const removeJobs = (jobs: Job[], ids: number[]) => {
+  const wanted = new Set(ids);
+  return {
+    jobs: jobs.filter((job) => !wanted.has(job.id)),
+    removed: jobs.flatMap((job, index) =>
+      wanted.has(job.id) ? [{ job, index }] : []
+    ),
+  };
+};
+
+// A pending deletion as persisted: the jobs themselves stay in the job list
+interface PersistedDeletion {
+  id: number;
+  index: number;
+}
+
+// How long deleted jobs can be brought back before the server is told
+const UNDO_DELETE_MS = 6000;
+let pendingDeletionTimer: ReturnType<typeof setTimeout> | undefined;
+
+// New entries invalidate whatever was undone before them
+const pushHistory = (
+  state: JobState,
+  entry: HistoryEntry
+): Pick<JobState, "undoStack" | "redoStack"> => ({
+  undoStack: [...state.undoStack, entry].slice(-MAX_HISTORY),
+  redoStack: [],
+});
+
+// Set the job list and record what changed as one undoable step
+const withJobHistory = (
+  state: JobState,
+  label: string,
+  jobs: Job[]
+): Partial<JobState> => {
+  const patches = diffJobs(state.jobs, jobs);
+  if (patches.length === 0) return { jobs };
+  return {
+    jobs,
+    ...pushHistory(state, { type: "jobs", label, patches, at: Date.now() }),
+  };
+};
+
+// Set the filters as one undoable step, merged with the previous step if
+// that was a filter change moments ago
+const withFilterHistory = (
+  state: JobState,
+  filters: JobFilters
+): Partial<JobState> => {
+  const last = state.undoStack.at(-1);
+  const now = Date.now();
+  if (last?.type === "filters" && now - last.at < FILTER_COALESCE_MS) {
+    return {
+      filters,
+      currentPage: 1,
+      undoStack: [
+        ...state.undoStack.slice(0, -1),
+        { ...last, after: filters, at: now },
+      ],
+      redoStack: [],
+    };
+  }
+  return {
+    filters,
+    currentPage: 1,
+    ...pushHistory(state, {
+      type: "filters",
+      label: "Change filters",
+      before: state.filters,
+      after: filters,
+      at: now,
+    }),
+  };
+};
+
+// Searching ranks by relevance; clearing the query goes back to the sort
+// used before, or the default one
+const withSearchSort = (
+  state: JobState,
+  filters: JobFilters
+): Partial<JobState> => {
+  const query = filters.searchQuery.trim();
+  if (query === state.filters.searchQuery.trim()) return {};
+  if (query) {
+    return {
+      sortField: "relevance",
+      sortOrder: "desc",
+      sortBeforeSearch:
+        state.sortField === "relevance"
+          ? state.sortBeforeSearch
+          : { field: state.sortField, order: state.sortOrder },
+    };
+  }
+  if (state.sortField !== "relevance") return { sortBeforeSearch: null };
+  const previous = state.sortBeforeSearch ?? {
+    field: defaultDashboardState.sortField,
+    order: defaultDashboardState.sortOrder,
+  };
+  return {
+    sortField: previous.field,
+    sortOrder: previous.order,
+    sortBeforeSearch: null,
+  };
+};
+
+// The server only knows about analyzed data: a server copy of a job with
+// the client-side fields of our copy on top
+const withLocalData = (job: Job, local: Job): Job => {
+  const merged: Job = {
+    ...job,
+    extracted: keepEditedFields(job.extracted, local),
+    status: local.status,
+    statusHistory: local.statusHistory,
+    notes: local.notes,
+    tags: local.tags,
+    collectionId: local.collectionId,
+    deadline: local.deadline,
+    followUpAt: local.followUpAt,
+    editedFields: local.editedFields,
+    extractionVersions: local.extractionVersions,
+    extractionSource: local.extractionSource ?? job.extractionSource,
+    pendingSync: local.pendingSync,
+    syncConflict: local.syncConflict,
+  };
+  // Re-analyzed jobs keep the version the user picked
+  return local.activeVersion === undefined
+    ? merged
+    : withVersion(merged, local.activeVersion);
+};
+
+// Keep the client-side fields of jobs we already have when a fresh list
+// comes in, and keep jobs that only exist locally or are still waiting to
+// be analyzed
+const mergeServerJobs = (serverJobs: Job[], localJobs: Job[]): Job[] => {
+  const localById = new Map(localJobs.map((job) => [job.id, job]));
+  const merged = serverJobs.map((job) => {
+    const local = localById.get(job.id);
+    return local ? withLocalData(job, local) : job;
+  });
+  const serverIds = new Set(serverJobs.map((job) => job.id));
+  return [
+    ...merged,
+    ...localJobs.filter(
+      (job) =>
+        (job.localOnly || job.pendingSync === "analyze") &&
+        !serverIds.has(job.id)
+    ),
+  ];
+};
+
+// Stores that key data by job id, told when a job queued offline gets the
+// id the server gave it
+type JobIdListener = (from: number, to: number) => void;
+const jobIdListeners: JobIdListener[] = [];
+
+export const onJobIdChange = (listener: JobIdListener) => {
+  jobIdListeners.push(listener);
+};
+
+// The store's own references to a job that changed id
+const remapJobId = (
+  state: JobState,
+  from: number,
+  to: number
+): Partial<JobState> => {
+  const remap = (id: number) => (id === from ? to : id);
+  const remapEntry = (entry: HistoryEntry): HistoryEntry =>
+    entry.type === "jobs"
+      ? {
+          ...entry,
+          patches: entry.patches.map((patch) => ({
+            ...patch,
+            id: remap(patch.id),
+          })),
+        }
+      : entry;
+  return {
+    selectedJobIds: state.selectedJobIds.map(remap),
+    expandedJobId:
+      state.expandedJobId === null ? null : remap(state.expandedJobId),
+    undoStack: state.undoStack.map(remapEntry),
+    redoStack: state.redoStack.map(remapEntry),
+    syncQueue: state.syncQueue.map((op) =>
+      op.jobId === from ? { ...op, jobId: to } : op
+    ),
+  };
 };
 
+const queueOperation = (type: SyncOperationType, jobId: number) => ({
+  type,
+  jobId,
+  queuedAt: new Date().toISOString(),
+});
+
+// The search index is kept in step with the job list as jobs come and go,
+// and rebuilt when the skill aliases change
+let jobSearchIndex: SearchIndex | null = null;
+// Results per query for the current index version (saved views each run
+// their own query)
+let searchCache: {
+  index: SearchIndex;
+  version: number;
+  results: Map<string, Map<number, number>>;
+} | null = null;
+
+// Relevance of every job matching the query, keyed by job id
+const getSearchScores = (jobs: Job[], query: string) => {
+  const resolver = useSkillTaxonomyStore.getState().getResolver();
+  if (jobSearchIndex?.resolver !== resolver) {
+    jobSearchIndex = createSearchIndex(resolver);
+  }
+  updateSearchIndex(jobSearchIndex, jobs);
+
+  if (
+    searchCache?.index !== jobSearchIndex ||
+    searchCache.version !== jobSearchIndex.version
+  ) {
+    searchCache = {
+      index: jobSearchIndex,
+      version: jobSearchIndex.version,
+      results: new Map(),
+    };
+  }
+  let scores = searchCache.results.get(query);
+  if (!scores) {
+    scores = searchJobs(jobSearchIndex, parseSearchQuery(query, resolver));
+    searchCache.results.set(query, scores);
+  }
+  return scores;
+};
+
+// Each active filter as its own test, so facet counts can tell which
+// filter a job fails
+interface FilterCheck {
+  filter: keyof JobFilters;
+  test: (job: Job) => boolean;
+}
+
+const getFilterChecks = (
+  jobs: Job[],
+  filters: JobFilters,
+  salaryAssumptions: SalaryAssumptions
+): FilterCheck[] => {
+  const resolver = useSkillTaxonomyStore.getState().getResolver();
+  const checks: FilterCheck[] = [];
+
+  // Search query (see parseSearchQuery for the syntax)
+  if (filters.searchQuery.trim()) {
+    const scores = getSearchScores(jobs, filters.searchQuery);
+    checks.push({ filter: "searchQuery", test: (job) => scores.has(job.id) });
+  }
+
+  // Experience level
+  if (filters.experienceLevels.length > 0) {
+    checks.push({
+      filter: "experienceLevels",
+      test: (job) => {
+        const level = normalizeExperienceLevel(job.extracted?.experienceLevel);
+        return level !== null && filters.experienceLevels.includes(level);
+      },
+    });
+  }
+
+  // Location
+  if (filters.location) {
+    const location = filters.location.toLowerCase();
+    checks.push({
+      filter: "location",
+      test: (job) =>
+        !!job.extracted?.location?.toLowerCase().includes(location),
+    });
+  }
+  if (filters.locationTypes.length > 0) {
+    checks.push({
+      filter: "locationTypes",
+      test: (job) => {
+        const type = classifyLocation(job.extracted?.location);
+        return type !== null && filters.locationTypes.includes(type);
+      },
+    });
+  }
+
+  // Skills
+  if (filters.skills.length > 0) {
+    const hasSkill = (job: Job, skill: string) =>
+      !!job.extracted?.skills?.some((jobSkill) =>
+        resolver.matches(jobSkill, skill)
+      );
+    checks.push({
+      filter: "skills",
+      test: (job) =>
+        filters.skillMatch === "all"
+          ? filters.skills.every((skill) => hasSkill(job, skill))
+          : filters.skills.some((skill) => hasSkill(job, skill)),
+    });
+  }
+
+  // Salary range (jobs without a parseable salary are excluded once either
+  // bound is set)
+  const { minSalary, maxSalary } = filters;
+  if (minSalary != null || maxSalary != null) {
+    checks.push({
+      filter: "minSalary",
+      test: (job) => {
+        const salary = getJobAnnualSalary(job, salaryAssumptions);
+        if (!salary) return false;
+        if (minSalary != null && salary.max < minSalary) return false;
+        if (maxSalary != null && salary.min > maxSalary) return false;
+        return true;
+      },
+    });
+  }
+
+  // Collection and tags
+  if (filters.collectionId) {
+    checks.push({
+      filter: "collectionId",
+      test: (job) => job.collectionId === filters.collectionId,
+    });
+  }
+  if (filters.tags.length > 0) {
+    checks.push({
+      filter: "tags",
+      test: (job) => filters.tags.some((tag) => job.tags?.includes(tag)),
+    });
+  }
+
+  // Recency
+  if (filters.postedWithinDays != null) {
+    const cutoff = Date.now() - filters.postedWithinDays * 24 * 60 * 60 * 1000;
+    checks.push({
+      filter: "postedWithinDays",
+      test: (job) => new Date(job.createdAt).getTime() >= cutoff,
+    });
+  }
+
+  return checks;
+};
+
+// Jobs matching a set of filters; shared by the dashboard and saved views
+const filterJobs = (
+  jobs: Job[],
+  filters: JobFilters,
+  salaryAssumptions: SalaryAssumptions
+): Job[] => {
+  const checks = getFilterChecks(jobs, filters, salaryAssumptions);
+  return jobs.filter((job) => checks.every((check) => check.test(job)));
+};
+
+// Facet counts, each counted over the jobs matching every other filter
+const countFacets = (
+  jobs: Job[],
+  filters: JobFilters,
+  salaryAssumptions: SalaryAssumptions
+): FacetCounts => {
+  // One pass sorts each job into the lists it would join if a single
+  // facet's filter were cleared
+  const checks = getFilterChecks(jobs, filters, salaryAssumptions);
+  const facets = [
+    "experienceLevels",
+    "locationTypes",
+    "skills",
+    "tags",
+    "collectionId",
+  ] as const;
+  const without = Object.fromEntries(
+    facets.map((facet) => [facet, [] as Job[]])
+  ) as Record<(typeof facets)[number], Job[]>;
+  const matching: Job[] = [];
+  for (const job of jobs) {
+    const failed = checks.filter((check) => !check.test(job));
+    if (failed.length === 0) {
+      matching.push(job);
+      for (const facet of facets) without[facet].push(job);
+    } else if (failed.length === 1) {
+      const [{ filter }] = failed;
+      if (filter in without) {
+        without[filter as (typeof facets)[number]].push(job);
+      }
+    }
+  }
+
+  const experienceLevels: Record<ExperienceLevel, number> = {
+    entry: 0,
+    mid: 0,
+    senior: 0,
+    lead: 0,
+  };
+  for (const job of without.experienceLevels) {
+    const level = normalizeExperienceLevel(job.extracted?.experienceLevel);
+    if (level) experienceLevels[level]++;
+  }
+
+  const locationTypes: Record<LocationType, number> = {
+    remote: 0,
+    hybrid: 0,
+    "on-site": 0,
+  };
+  for (const job of without.locationTypes) {
+    const type = classifyLocation(job.extracted?.location);
+    if (type) locationTypes[type]++;
+  }
+
+  const collections: Record<string, number> = {};
+  for (const job of without.collectionId) {
+    if (job.collectionId) {
+      collections[job.collectionId] = (collections[job.collectionId] ?? 0) + 1;
+    }
+  }
+
+  return {
+    experienceLevels,
+    locationTypes,
+    tags: getTagCounts(without.tags),
+    collections,
+    // "All" narrows as skills are picked, so count within the current
+    // selection; "any" widens, so count without it
+    skills: getTopSkills(
+      filters.skillMatch === "all" ? matching : without.skills,
+      useSkillTaxonomyStore.getState().getResolver(),
+      Infinity
+    ),
+  };
+};
+
+const sortJobs = (
+  jobs: Job[],
+  filtered: Job[],
+  { filters, sortField, sortOrder, salaryAssumptions }: JobState
+): Job[] => {
+  const sorted = [...filtered];
+
+  if (
+    sortField === "salary" ||
+    sortField === "match" ||
+    sortField === "relevance"
+  ) {
+    const { profile } = useProfileStore.getState();
+    const resolver = useSkillTaxonomyStore.getState().getResolver();
+    const scores = filters.searchQuery.trim()
+      ? getSearchScores(jobs, filters.searchQuery)
+      : null;
+    const valueOf = (job: Job): number | null => {
+      if (sortField === "relevance") {
+        return scores?.get(job.id) ?? null;
+      }
+      if (sortField === "match") {
+        return scoreJob(job, profile, salaryAssumptions, resolver).score;
+      }
+      const salary = getJobAnnualSalary(job, salaryAssumptions);
+      return salary ? (salary.min + salary.max) / 2 : null;
+    };
+    const direction = sortOrder === "asc" ? 1 : -1;
+
+    // Compute each value once; jobs without one always sink to the bottom
+    return sorted
+      .map((job) => ({ job, value: valueOf(job) }))
+      .sort((a, b) => {
+        if (a.value === null) return b.value === null ? 0 : 1;
+        if (b.value === null) return -1;
+        return (a.value - b.value) * direction;
+      })
+      .map(({ job }) => job);
+  }
+
+  sorted.sort((a, b) => {
+    let aValue: string | number;
+    let bValue: string | number;
+
+    switch (sortField) {
+      case "createdAt":
+        aValue = new Date(a.createdAt).getTime();
+        bValue = new Date(b.createdAt).getTime();
+        break;
+      case "title":
+        aValue = a.extracted?.title || "";
+        bValue = b.extracted?.title || "";
+        break;
+      case "company":
+        aValue = a.extracted?.company || "";
+        bValue = b.extracted?.company || "";
+        break;
+      case "experienceLevel":
+        aValue = a.extracted?.experienceLevel || "";
+        bValue = b.extracted?.experienceLevel || "";
+        break;
+      default:
+        return 0;
+    }
+
+    if (aValue < bValue) return sortOrder === "asc" ? -1 : 1;
+    if (aValue > bValue) return sortOrder === "asc" ? 1 : -1;
+    return 0;
+  });
+
+  return sorted;
+};
+
+// The dashboard's filtered, sorted and counted lists, kept until one of the
+// values they were computed from changes
+interface Memo<T> {
+  inputs: unknown[];
+  value: T;
+}
+
+const memoize = <T>(
+  memo: Memo<T> | null,
+  inputs: unknown[],
+  compute: () => T
+): Memo<T> =>
+  memo &&
+  memo.inputs.length === inputs.length &&
+  memo.inputs.every((input, i) => input === inputs[i])
+    ? memo
+    : { inputs, value: compute() };
+
+let filteredMemo: Memo<Job[]> | null = null;
+let sortedMemo: Memo<Job[]> | null = null;
+let facetsMemo: Memo<FacetCounts> | null = null;
+
+// Everything the filters read besides the filters themselves
+const filterInputs = (state: JobState) => [
+  state.jobs,
+  state.filters,
+  state.salaryAssumptions,
+  useSkillTaxonomyStore.getState().getResolver(),
+];
+
+// Bodies are read from IndexedDB in chunks so the list stays responsive
+const BODY_CHUNK_SIZE = 200;
+
+const isOnlineNow = () =>
+  typeof navigator === "undefined" ? true : navigator.onLine;
+
 export const useJobStore = create<JobState>()(
   persist(
     devtools(
@@ -82,35 +891,112 @@ export const useJobStore = create<JobState>()(
         error: null,
         analyzing: false,
         analyzeError: null,
+        reanalyzingIds: [],
+
+        // Filter, sort and pagination state
+        ...defaultDashboardState,
+        sortBeforeSearch: null,
+
+        // Layout state
+        viewMode: "grid",
 
-        // Filter state
-        filters: defaultFilters,
+        // Salary normalization state
+        salaryAssumptions: DEFAULT_SALARY_ASSUMPTIONS,
 
-        // Sort state
-        sortField: "createdAt",
-        sortOrder: "desc",
+        // Selection state
+        selectedJobIds: [],
 
-        // Pagination state
-        currentPage: 1,
-        itemsPerPage: 10,
+        // Saved view state
+        savedViews: [],
+        collections: [],
+        pendingDeletion: null,
+        undoStack: [],
+        redoStack: [],
+        activeViewId: null,
+
+        // Sync state
+        isOnline: isOnlineNow(),
+        syncing: false,
+        syncQueue: [],
+        discardedJobIds: [],
 
         // Fetch all jobs
         fetchJobs: async () => {
           set({ loading: true, error: null });
           try {
             const jobs = await getJobsApi();
-            set({ jobs, loading: false });
+            set((state) => {
+              // Jobs waiting out a bulk delete's undo window, and copies
+              // made by re-analyzing, stay hidden
+              const deleting = new Set([
+                ...(state.pendingDeletion?.map(({ job }) => job.id) ?? []),
+                ...state.discardedJobIds,
+              ]);
+              return {
+                jobs: mergeServerJobs(
+                  jobs.filter((job) => !deleting.has(job.id)),
+                  state.jobs
+                ),
+                loading: false,
+                isOnline: true,
+              };
+            });
           } catch (err) {
             set({
               error: err instanceof Error ? err.message : "Failed to load jobs",
               loading: false,
+              ...(isNetworkError(err) && { isOnline: false }),
             });
           }
         },
 
-        // Analyze a new job with optimistic update
-        analyzeJob: async (jobText: string) => {
-          set({ analyzing: true, analyzeError: null });
+        // Fetch a single job and add or refresh it in the list
+        fetchJob: async (id: number) => {
+          try {
+            const job = await getJobApi(id);
+            set((state) => ({
+              jobs: state.jobs.some((j) => j.id === id)
+                ? state.jobs.map((j) =>
+                    j.id === id ? mergeServerJobs([job], [j])[0] : j
+                  )
+                : [job, ...state.jobs],
+            }));
+            return job;
+          } catch (err) {
+            set({
+              error: err instanceof Error ? err.message : "Failed to load job",
+              ...(isNetworkError(err) && { isOnline: false }),
+            });
+            return null;
+          }
+        },
+
+        // Analyze a new job with optimistic update. While offline the job
+        // is queued and analyzed once the connection is back.
+        analyzeJob: async (
+          jobText: string,
+          structured?: ExtractedJobData | null
+        ) => {
+          // The page's schema.org markup already has what the AI would
+          // extract: keep it as a local job without calling the server. The
+          // server can only store jobs it analyzed itself, so it stays
+          // local-only and is labelled as such.
+          if (structured && hasEnoughCoverage(structured)) {
+            const job: Job = {
+              id: nextLocalJobId(get().jobs),
+              originalText: jobText,
+              extractedJson: JSON.stringify(structured),
+              extracted: structured,
+              createdAt: new Date().toISOString(),
+              extractionSource: "structured",
+              localOnly: true,
+            };
+            set((state) => ({
+              jobs: [job, ...state.jobs],
+              analyzeError: null,
+            }));
+            return job;
+          }
 
           // Optimistic update: create temporary job
           const tempId = Date.now();
@@ -122,21 +1008,54 @@ export const useJobStore = create<JobState>()(
             createdAt: new Date().toISOString(),
           };
 
+          const queueAnalysis = () => {
+            const queuedJob: Job = { ...optimisticJob, pendingSync: "analyze" };
+            set((state) => ({
+              jobs: [queuedJob, ...state.jobs.filter((j) => j.id !== tempId)],
+              syncQueue: [
+                ...state.syncQueue,
+                queueOperation("analyze", tempId),
+              ],
+              analyzing: false,
+            }));
+            return queuedJob;
+          };
+
+          if (!get().isOnline) return queueAnalysis();
+
+          set({ analyzing: true, analyzeError: null });
+
           // Add optimistic job to the list
           set((state) => ({
             jobs: [optimisticJob, ...state.jobs],
           }));
 
           try {
-            const job = await analyzeJobApi(jobText);
+            // Fill in the optimistic card as fields stream in
+            const job = await analyzeJobStreamingApi(jobText, (fields) =>
+              set((state) => ({
+                jobs: state.jobs.map((j) =>
+                  j.id === tempId
+                    ? { ...j, streamed: { ...j.streamed, ...fields } }
+                    : j
+                ),
+              }))
+            );
 
             // Replace optimistic job with real job
+            const analyzed: Job = { ...job, extractionSource: "ai" };
             set((state) => ({
-              jobs: [job, ...state.jobs.filter((j) => j.id !== tempId)],
+              jobs: [analyzed, ...state.jobs.filter((j) => j.id !== tempId)],
               analyzing: false,
             }));
-            return job;
+            return analyzed;
           } catch (err) {
+            // The connection dropped mid-request: keep the job and retry later
+            if (isNetworkError(err)) {
+              set({ isOnline: false });
+              return queueAnalysis();
+            }
+
             // Remove optimistic job on error
             set((state) => ({
               jobs: state.jobs.filter((j) => j.id !== tempId),
@@ -148,10 +1067,121 @@ export const useJobStore = create<JobState>()(
           }
         },
 
-        // Delete a job with optimistic update
-        deleteJob: async (id: number) => {
-          // Optimistic update: remove job immediately
+        // Analyze a job's stored text again. Every result is kept as a
+        // version and the new one is used until the user picks another.
+        reanalyzeJob: async (id: number) => {
+          if (!get().isOnline) {
+            set({ error: "Re-analyzing needs a connection to the server" });
+            return;
+          }
+          const [job] = await get().loadJobBodies([id]);
+          if (!job?.extracted || get().reanalyzingIds.includes(id)) return;
+
+          set((state) => ({
+            reanalyzingIds: [...state.reanalyzingIds, id],
+            error: null,
+          }));
+
+          try {
+            const result = await analyzeJobApi(job.originalText);
+            // The endpoint stores every analysis as a new job; only the
+            // extraction is wanted here. The copy is deleted through the
+            // sync queue, so a failed delete is retried instead of lost.
+            set((state) => ({
+              discardedJobIds: [...state.discardedJobIds, result.id],
+              syncQueue: [
+                ...state.syncQueue,
+                queueOperation("delete", result.id),
+              ],
+            }));
+            get().syncPendingOperations();
+            if (!result.extracted) {
+              throw new Error("The analysis returned no data");
+            }
+
+            const version: ExtractionVersion = {
+              extracted: result.extracted,
+              extractedJson: result.extractedJson,
+              analyzedAt: new Date().toISOString(),
+              source: "ai",
+            };
+            set((state) => ({
+              jobs: state.jobs.map((j) => {
+                if (j.id !== id || !j.extracted) return j;
+                const versions = j.extractionVersions ?? [initialVersion(j)];
+                return withVersion(
+                  { ...j, extractionVersions: [...versions, version] },
+                  versions.length
+                );
+              }),
+            }));
+          } catch (err) {
+            set({
+              error:
+                err instanceof Error ? err.message : "Failed to re-analyze job",
+              ...(isNetworkError(err) && { isOnline: false }),
+            });
+          } finally {
+            set((state) => ({
+              reanalyzingIds: state.reanalyzingIds.filter((j) => j !== id),
+            }));
+          }
+        },
+
+        // Pick which analysis of a re-analyzed job wins
+        selectExtractionVersion: (id: number, index: number) =>
+          set((state) =>
+            withJobHistory(
+              state,
+              "Pick analysis version",
+              state.jobs.map((job) =>
+                job.id === id ? withVersion(job, index) : job
+              )
+            )
+          ),
+
+        // Delete a job. It disappears right away, but the server is only
+        // told once the undo window has passed.
+        deleteJob: (id: number) => get().deleteJobs([id]),
+
+        // Delete a job on the server with optimistic update. While offline
+        // the job stays visible, marked as pending, until the delete
+        // reaches the server.
+        commitDelete: async (id: number) => {
           const previousJobs = get().jobs;
+          const index = previousJobs.findIndex((job) => job.id === id);
+          const target = previousJobs[index];
+          const removed = target ? [{ job: target, index }] : [];
+
+          // Local-only jobs and queued analyses were never on the server
+          if (target?.localOnly || target?.pendingSync === "analyze") {
+            set((state) => ({
+              jobs: state.jobs.filter((job) => job.id !== id),
+              syncQueue: state.syncQueue.filter((op) => op.jobId !== id),
+            }));
+            return;
+          }
+
+          const queueDelete = () =>
+            set((state) => ({
+              // Put the job back if it was already removed optimistically
+              jobs: restoreJobs(state.jobs, removed).map((job) =>
+                job.id === id
+                  ? { ...job, pendingSync: "delete", syncConflict: undefined }
+                  : job
+              ),
+              syncQueue: [
+                ...state.syncQueue.filter((op) => op.jobId !== id),
+                queueOperation("delete", id),
+              ],
+            }));
+
+          if (!get().isOnline) {
+            queueDelete();
+            return;
+          }
+
+          // Optimistic update: remove job immediately
           set((state) => ({
             jobs: state.jobs.filter((job) => job.id !== id),
           }));
@@ -159,13 +1189,19 @@ export const useJobStore = create<JobState>()(
           try {
             await deleteJobApi(id);
           } catch (err) {
+            if (isNetworkError(err)) {
+              set({ isOnline: false });
+              queueDelete();
+              return;
+            }
+
             // Rollback on error
             const errorMessage =
               err instanceof Error ? err.message : "Failed to delete job";
-            set({
-              jobs: previousJobs,
+            set((state) => ({
+              jobs: restoreJobs(state.jobs, removed),
               error: errorMessage,
-            });
+            }));
 
             // Auto-clear error after 5 seconds
             setTimeout(() => {
@@ -176,25 +1212,664 @@ export const useJobStore = create<JobState>()(
           }
         },
 
+        // Remove jobs from the list and start the undo window; only one
+        // deletion waits at a time, so an earlier one is sent right away
+        deleteJobs: (ids: number[]) => {
+          get().flushPendingDeletion();
+          const { jobs, removed } = removeJobs(get().jobs, ids);
+          if (removed.length === 0) return;
+
+          const removedIds = new Set(ids);
+          set((state) => ({
+            jobs,
+            selectedJobIds: state.selectedJobIds.filter(
+              (id) => !removedIds.has(id)
+            ),
+            pendingDeletion: removed,
+            ...pushHistory(state, {
+              type: "delete",
+              label:
+                removed.length === 1
+                  ? `Delete "${removed[0].job.extracted?.title ?? "job"}"`
+                  : `Delete ${removed.length} jobs`,
+              removed,
+              at: Date.now(),
+            }),
+          }));
+          pendingDeletionTimer = setTimeout(
+            () => get().flushPendingDeletion(),
+            UNDO_DELETE_MS
+          );
+        },
+
+        // Bring back the deletion still in its undo window, wherever it is
+        // in the history
+        undoDeleteJobs: () => {
+          const removed = get().pendingDeletion;
+          const entry = get().undoStack.find(
+            (e) => e.type === "delete" && e.removed === removed
+          );
+          if (!removed || !entry) return;
+          clearTimeout(pendingDeletionTimer);
+          set((state) => ({
+            jobs: restoreJobs(state.jobs, removed),
+            pendingDeletion: null,
+            undoStack: state.undoStack.filter((e) => e !== entry),
+            redoStack: [...state.redoStack, entry],
+          }));
+        },
+
+        // Send the pending deletion to the server, after which it can't be
+        // undone. The jobs go back into the list first so commitDelete can
+        // roll each one back on failure.
+        flushPendingDeletion: async () => {
+          clearTimeout(pendingDeletionTimer);
+          const removed = get().pendingDeletion;
+          if (!removed) return;
+          set((state) => ({
+            jobs: restoreJobs(state.jobs, removed),
+            pendingDeletion: null,
+            undoStack: state.undoStack.filter(
+              (e) => !(e.type === "delete" && e.removed === removed)
+            ),
+          }));
+          await Promise.all(
+            removed.map(({ job }) => get().commitDelete(job.id))
+          );
+        },
+
+        // Step back through the history. Deletes can only be undone while
+        // they wait in their undo window.
+        undo: () => {
+          const entry = get().undoStack.at(-1);
+          if (!entry) return;
+          if (entry.type === "delete") {
+            get().undoDeleteJobs();
+            return;
+          }
+          set((state) => ({
+            ...(entry.type === "jobs"
+              ? { jobs: applyJobPatches(state.jobs, entry.patches, "before") }
+              : { filters: entry.before, currentPage: 1 }),
+            undoStack: state.undoStack.slice(0, -1),
+            redoStack: [...state.redoStack, entry],
+          }));
+        },
+
+        redo: () => {
+          const entry = get().redoStack.at(-1);
+          if (!entry) return;
+          if (entry.type === "delete") {
+            // Deleting again starts a new undo window and a new entry
+            const redoStack = get().redoStack.slice(0, -1);
+            get().deleteJobs(entry.removed.map(({ job }) => job.id));
+            set({ redoStack });
+            return;
+          }
+          set((state) => ({
+            ...(entry.type === "jobs"
+              ? { jobs: applyJobPatches(state.jobs, entry.patches, "after") }
+              : { filters: entry.after, currentPage: 1 }),
+            undoStack: [...state.undoStack, entry],
+            redoStack: state.redoStack.slice(0, -1),
+          }));
+        },
+
+        // Merge imported jobs: matching ids are replaced, new ones are added
+        // to the top of the list
+        importJobs: (imported: Job[]) =>
+          set((state) => {
+            const importedById = new Map(imported.map((job) => [job.id, job]));
+            const existingIds = new Set(state.jobs.map((job) => job.id));
+            return {
+              jobs: [
+                ...imported.filter((job) => !existingIds.has(job.id)),
+                ...state.jobs.map((job) => importedById.get(job.id) ?? job),
+              ],
+            };
+          }),
+
+        // Fill in originalText/extractedJson of jobs restored without them
+        // and return the requested jobs (all jobs by default)
+        loadJobBodies: async (ids?: number[]) => {
+          const wanted = ids ? new Set(ids) : null;
+          const pendingIds = get()
+            .jobs.filter(
+              (job) => job.bodyPending && (!wanted || wanted.has(job.id))
+            )
+            .map((job) => job.id);
+
+          for (let i = 0; i < pendingIds.length; i += BODY_CHUNK_SIZE) {
+            const bodies = await readJobBodies(
+              pendingIds.slice(i, i + BODY_CHUNK_SIZE)
+            );
+            const bodyById = new Map(bodies.map((body) => [body.id, body]));
+            set((state) => ({
+              jobs: state.jobs.map((job) => {
+                const body = job.bodyPending && bodyById.get(job.id);
+                return body
+                  ? {
+                      ...job,
+                      originalText: body.originalText,
+                      extractedJson: body.extractedJson,
+                      bodyPending: undefined,
+                    }
+                  : job;
+              }),
+            }));
+          }
+
+          const jobs = get().jobs;
+          if (!ids) return jobs;
+          const jobById = new Map(jobs.map((job) => [job.id, job]));
+          return ids.flatMap((id) => jobById.get(id) ?? []);
+        },
+
+        // Jobs whose posting looks like the given text, with their bodies
+        // loaded to compare side by side. Other stored bodies are only read
+        // once, to fingerprint them.
+        checkDuplicates: async (text: string) => {
+          const unindexed = get()
+            .jobs.filter((job) => job.bodyPending && !hasStoredShingles(job.id))
+            .map((job) => job.id);
+          for (let i = 0; i < unindexed.length; i += BODY_CHUNK_SIZE) {
+            const bodies = await readJobBodies(
+              unindexed.slice(i, i + BODY_CHUNK_SIZE)
+            );
+            for (const body of bodies) {
+              rememberShingles(body.id, body.originalText);
+            }
+          }
+
+          const similar = findSimilarJobs(text, get().jobs);
+          if (similar.length === 0) return similar;
+          const loaded = await get().loadJobBodies(
+            similar.map(({ job }) => job.id)
+          );
+          const loadedById = new Map(loaded.map((job) => [job.id, job]));
+          return similar.map((match) => ({
+            ...match,
+            job: loadedById.get(match.job.id) ?? match.job,
+          }));
+        },
+
         // Clear error
         clearError: () => set({ error: null }),
 
         // Clear analyze error
         clearAnalyzeError: () => set({ analyzeError: null }),
 
-        // Filter actions
-        setFilters: (newFilters: Partial<JobFilters>) =>
+        // Called from the browser's online/offline events. Coming back
+        // online replays the queue.
+        setOnline: (online: boolean) => {
+          set({ isOnline: online });
+          if (online) get().syncPendingOperations();
+        },
+
+        // Replay queued operations in order. A network failure stops the run
+        // and leaves the rest queued; a server rejection marks the job as
+        // conflicted and moves on. Ends with a fetch to reconcile with the
+        // server's list.
+        syncPendingOperations: async () => {
+          if (get().syncing || get().syncQueue.length === 0) return;
+          set({ syncing: true });
+
+          const markConflict = (id: number, err: unknown) =>
+            set((state) => ({
+              jobs: state.jobs.map((job) =>
+                job.id === id
+                  ? {
+                      ...job,
+                      syncConflict:
+                        err instanceof Error ? err.message : "Sync failed",
+                    }
+                  : job
+              ),
+            }));
+
+          // Deleting re-analysis copies changes nothing in the list
+          let refresh = false;
+          const retryLater: SyncOperation[] = [];
+          let operation: SyncOperation | undefined;
+          while ((operation = get().syncQueue[0])) {
+            const current = operation;
+            const { type, jobId } = current;
+            // Deleting or discarding a job drops its operations from the
+            // queue, possibly while this one is in flight; remove it by
+            // identity so the next one is never dropped in its place
+            const withoutCurrent = (queue: SyncOperation[]) =>
+              queue.filter((op) => op !== current);
+            const [job] = await get().loadJobBodies([jobId]);
+            const discarded = get().discardedJobIds.includes(jobId);
+            if (!discarded) refresh = true;
+
+            try {
+              if (type === "analyze" && job) {
+                const analyzed = await analyzeJobApi(job.originalText);
+                // Deleted while it was being analyzed: the server's copy
+                // goes the way of a re-analysis copy
+                if (!get().jobs.some((j) => j.id === jobId)) {
+                  set((state) => ({
+                    discardedJobIds: [...state.discardedJobIds, analyzed.id],
+                    syncQueue: [
+                      ...withoutCurrent(state.syncQueue),
+                      queueOperation("delete", analyzed.id),
+                    ],
+                  }));
+                  continue;
+                }
+                // Keep everything set while the job was queued, and move
+                // whatever refers to the temporary id over to the new one.
+                // Other stores follow first, so none of them ever sees the
+                // job under an id they don't know.
+                for (const listener of jobIdListeners) {
+                  listener(jobId, analyzed.id);
+                }
+                set((state) => ({
+                  ...remapJobId(
+                    { ...state, syncQueue: withoutCurrent(state.syncQueue) },
+                    jobId,
+                    analyzed.id
+                  ),
+                  jobs: state.jobs.map((j) =>
+                    j.id === jobId
+                      ? {
+                          ...withLocalData(
+                            { ...analyzed, extractionSource: "ai" },
+                            j
+                          ),
+                          pendingSync: undefined,
+                          syncConflict: undefined,
+                        }
+                      : j
+                  ),
+                }));
+              } else if (type === "delete") {
+                await deleteJobApi(jobId);
+                set((state) => ({
+                  jobs: state.jobs.filter((j) => j.id !== jobId),
+                  discardedJobIds: state.discardedJobIds.filter(
+                    (id) => id !== jobId
+                  ),
+                }));
+              }
+            } catch (err) {
+              if (isNetworkError(err)) {
+                set((state) => ({
+                  isOnline: false,
+                  syncing: false,
+                  syncQueue: [...state.syncQueue, ...retryLater],
+                }));
+                return;
+              }
+              // Already gone on the server, which is what we wanted
+              if (
+                type === "delete" &&
+                err instanceof ApiError &&
+                err.status === 404
+              ) {
+                set((state) => ({
+                  jobs: state.jobs.filter((j) => j.id !== jobId),
+                  discardedJobIds: state.discardedJobIds.filter(
+                    (id) => id !== jobId
+                  ),
+                }));
+              } else if (discarded) {
+                // Not in the list, so there's no job to show a conflict
+                // on; it stays hidden and is retried on the next sync
+                retryLater.push(current);
+                set({
+                  error: `Couldn't remove the re-analysis copy: ${
+                    err instanceof Error ? err.message : "Sync failed"
+                  }`,
+                });
+              } else {
+                markConflict(jobId, err);
+              }
+            }
+
+            set((state) => ({ syncQueue: withoutCurrent(state.syncQueue) }));
+          }
+
           set((state) => ({
-            filters: { ...state.filters, ...newFilters },
-            currentPage: 1, // Reset to first page when filtering
-          })),
+            syncing: false,
+            isOnline: true,
+            syncQueue: [...state.syncQueue, ...retryLater],
+          }));
+          if (refresh) await get().fetchJobs();
+        },
 
-        clearFilters: () =>
+        // Retry re-queues the failed operation; discard drops it, removing
+        // a never-analyzed job or restoring a job whose delete failed
+        resolveSyncConflict: (id: number, resolution: "retry" | "discard") => {
+          const type = get().jobs.find((j) => j.id === id)?.pendingSync;
+          if (!type) return;
+
+          if (resolution === "retry") {
+            set((state) => ({
+              jobs: state.jobs.map((j) =>
+                j.id === id ? { ...j, syncConflict: undefined } : j
+              ),
+              syncQueue: [...state.syncQueue, queueOperation(type, id)],
+            }));
+            if (get().isOnline) get().syncPendingOperations();
+            return;
+          }
+
+          set((state) => ({
+            jobs:
+              type === "analyze"
+                ? state.jobs.filter((j) => j.id !== id)
+                : state.jobs.map((j) =>
+                    j.id === id
+                      ? {
+                          ...j,
+                          pendingSync: undefined,
+                          syncConflict: undefined,
+                        }
+                      : j
+                  ),
+            syncQueue: state.syncQueue.filter((op) => op.jobId !== id),
+          }));
+        },
+
+        // Move a job to another pipeline stage and record the transition
+        setJobStatus: (id: number, status: ApplicationStatus) =>
+          set((state) =>
+            withJobHistory(
+              state,
+              "Change status",
+              state.jobs.map((job) =>
+                job.id === id && getJobStatus(job) !== status
+                  ? {
+                      ...job,
+                      status,
+                      statusHistory: [
+                        ...(job.statusHistory ?? []),
+                        { status, changedAt: new Date().toISOString() },
+                      ],
+                    }
+                  : job
+              )
+            )
+          ),
+
+        setJobNotes: (id: number, notes: string) =>
+          set((state) =>
+            withJobHistory(
+              state,
+              "Edit notes",
+              state.jobs.map((job) => (job.id === id ? { ...job, notes } : job))
+            )
+          ),
+
+        // Set or clear (undefined) a job's deadline and follow-up date
+        setJobDates: (
+          id: number,
+          dates: Partial<Pick<Job, "deadline" | "followUpAt">>
+        ) =>
+          set((state) =>
+            withJobHistory(
+              state,
+              "deadline" in dates ? "Set deadline" : "Set follow-up",
+              state.jobs.map((job) =>
+                job.id === id ? { ...job, ...dates } : job
+              )
+            )
+          ),
+
+        // Correct an extracted field by hand and mark it as user-edited
+        updateExtractedField: (id, field, value) =>
+          set((state) =>
+            withJobHistory(
+              state,
+              "Edit field",
+              state.jobs.map((job) =>
+                job.id === id && job.extracted
+                  ? {
+                      ...job,
+                      extracted: { ...job.extracted, [field]: value },
+                      editedFields: [
+                        ...(job.editedFields ?? []).filter((f) => f !== field),
+                        field,
+                      ],
+                    }
+                  : job
+              )
+            )
+          ),
+
+        // Go back to the value the AI extracted
+        revertExtractedField: (id: number, field: ExtractedField) =>
+          set((state) =>
+            withJobHistory(
+              state,
+              "Revert field",
+              state.jobs.map((job) => {
+                if (job.id !== id || !job.extracted) return job;
+                // Nothing to go back to while the body is still loading
+                const original = parseExtractedJson(job.extractedJson)?.[field];
+                if (original === undefined) return job;
+                return {
+                  ...job,
+                  extracted: { ...job.extracted, [field]: original },
+                  editedFields: job.editedFields?.filter((f) => f !== field),
+                };
+              })
+            )
+          ),
+
+        setViewMode: (mode: ViewMode) => set({ viewMode: mode }),
+
+        setExpandedJobId: (id: number | null) => set({ expandedJobId: id }),
+
+        // Restore filters, sort, page and expanded card in one go (from the
+        // URL), without the page reset the individual setters do
+        applyDashboardState: (dashboard: DashboardState) =>
           set({
-            filters: defaultFilters,
+            ...dashboard,
+            filters: { ...defaultFilters, ...dashboard.filters },
+          }),
+
+        setSalaryAssumptions: (assumptions: Partial<SalaryAssumptions>) =>
+          set((state) => ({
+            salaryAssumptions: { ...state.salaryAssumptions, ...assumptions },
+            currentPage: 1,
+          })),
+
+        // Tag and collection actions
+        setJobTags: (id: number, tags: string[]) =>
+          set((state) =>
+            withJobHistory(
+              state,
+              "Edit tags",
+              state.jobs.map((job) =>
+                job.id === id ? { ...job, tags: normalizeTags(tags) } : job
+              )
+            )
+          ),
+
+        addTagsToJobs: (ids: number[], tags: string[]) => {
+          const wanted = new Set(ids);
+          set((state) =>
+            withJobHistory(
+              state,
+              `Tag ${ids.length} ${ids.length === 1 ? "job" : "jobs"}`,
+              state.jobs.map((job) =>
+                wanted.has(job.id)
+                  ? {
+                      ...job,
+                      tags: normalizeTags([...(job.tags ?? []), ...tags]),
+                    }
+                  : job
+              )
+            )
+          );
+        },
+
+        moveJobsToCollection: (ids: number[], collectionId: string | null) => {
+          const wanted = new Set(ids);
+          set((state) =>
+            withJobHistory(
+              state,
+              `Move ${ids.length} ${ids.length === 1 ? "job" : "jobs"}`,
+              state.jobs.map((job) =>
+                wanted.has(job.id) &&
+                job.collectionId !== (collectionId ?? undefined)
+                  ? { ...job, collectionId: collectionId ?? undefined }
+                  : job
+              )
+            )
+          );
+        },
+
+        createCollection: (name: string) => {
+          const trimmed = name.trim();
+          if (!trimmed) return null;
+          const existing = get().collections.find(
+            (c) => c.name.toLowerCase() === trimmed.toLowerCase()
+          );
+          if (existing) return existing.id;
+          const collection: JobCollection = {
+            id: `collection-${Date.now()}`,
+            name: trimmed,
+            createdAt: new Date().toISOString(),
+          };
+          set((state) => ({
+            collections: [...state.collections, collection],
+          }));
+          return collection.id;
+        },
+
+        renameCollection: (id: string, name: string) => {
+          const trimmed = name.trim();
+          if (!trimmed) return;
+          set((state) => ({
+            collections: state.collections.map((c) =>
+              c.id === id ? { ...c, name: trimmed } : c
+            ),
+          }));
+        },
+
+        // Jobs in a deleted collection stay, just without a collection
+        deleteCollection: (id: string) =>
+          set((state) => ({
+            collections: state.collections.filter((c) => c.id !== id),
+            jobs: state.jobs.map((job) =>
+              job.collectionId === id
+                ? { ...job, collectionId: undefined }
+                : job
+            ),
+            filters:
+              state.filters.collectionId === id
+                ? { ...state.filters, collectionId: null }
+                : state.filters,
+          })),
+
+        // Selection actions
+        toggleJobSelection: (id: number) =>
+          set((state) => ({
+            selectedJobIds: state.selectedJobIds.includes(id)
+              ? state.selectedJobIds.filter((selectedId) => selectedId !== id)
+              : [...state.selectedJobIds, id],
+          })),
+
+        setSelectedJobIds: (ids: number[]) => set({ selectedJobIds: ids }),
+
+        clearSelection: () => set({ selectedJobIds: [] }),
+
+        // Saved view actions
+        saveView: (name: string) => {
+          const trimmed = name.trim();
+          if (!trimmed) return;
+          const view: SavedView = {
+            id: `view-${Date.now()}`,
+            name: trimmed,
+            filters: get().filters,
+            sortField: get().sortField,
+            sortOrder: get().sortOrder,
+            lastOpenedAt: new Date().toISOString(),
+          };
+          set((state) => ({
+            savedViews: [...state.savedViews, view],
+            activeViewId: view.id,
+          }));
+        },
+
+        // Apply a view's filters and sort; null goes back to all jobs
+        openView: (id: string | null) => {
+          const view = get().savedViews.find((v) => v.id === id);
+          if (!view) {
+            set({
+              activeViewId: null,
+              filters: defaultFilters,
+              sortField: defaultDashboardState.sortField,
+              sortOrder: defaultDashboardState.sortOrder,
+              currentPage: 1,
+            });
+            return;
+          }
+          set((state) => ({
+            activeViewId: view.id,
+            filters: { ...defaultFilters, ...view.filters },
+            sortField: view.sortField,
+            sortOrder: view.sortOrder,
             currentPage: 1,
+            savedViews: state.savedViews.map((v) =>
+              v.id === view.id
+                ? { ...v, lastOpenedAt: new Date().toISOString() }
+                : v
+            ),
+          }));
+        },
+
+        // Overwrite a view with the current filters and sort
+        updateView: (id: string) =>
+          set((state) => ({
+            savedViews: state.savedViews.map((view) =>
+              view.id === id
+                ? {
+                    ...view,
+                    filters: state.filters,
+                    sortField: state.sortField,
+                    sortOrder: state.sortOrder,
+                  }
+                : view
+            ),
+          })),
+
+        renameView: (id: string, name: string) =>
+          set((state) => ({
+            savedViews: state.savedViews.map((view) =>
+              view.id === id && name.trim()
+                ? { ...view, name: name.trim() }
+                : view
+            ),
+          })),
+
+        deleteView: (id: string) =>
+          set((state) => ({
+            savedViews: state.savedViews.filter((view) => view.id !== id),
+            activeViewId: state.activeViewId === id ? null : state.activeViewId,
+          })),
+
+        // Filter actions
+        // Also resets to the first page
+        setFilters: (newFilters: Partial<JobFilters>) =>
+          set((state) => {
+            const filters = { ...state.filters, ...newFilters };
+            return {
+              ...withFilterHistory(state, filters),
+              ...withSearchSort(state, filters),
+            };
           }),
 
+        clearFilters: () =>
+          set((state) => ({
+            ...withFilterHistory(state, defaultFilters),
+            ...withSearchSort(state, defaultFilters),
+          })),
+
         // Sort actions
         setSortField: (field: SortField) =>
           set({
@@ -241,91 +1916,26 @@ export const useJobStore = create<JobState>()(
         // Computed getters
         getFilteredJobs: () => {
           const state = get();
-          let filtered = [...state.jobs];
-
-          // Apply search query
-          if (state.filters.searchQuery) {
-            const query = state.filters.searchQuery.toLowerCase();
-            filtered = filtered.filter((job) => {
-              const extracted = job.extracted;
-              return (
-                job.originalText.toLowerCase().includes(query) ||
-                extracted?.title?.toLowerCase().includes(query) ||
-                extracted?.company?.toLowerCase().includes(query) ||
-                extracted?.descriptionSummary?.toLowerCase().includes(query) ||
-                extracted?.skills?.some((skill) =>
-                  skill.toLowerCase().includes(query)
-                )
-              );
-            });
-          }
-
-          // Apply experience level filter
-          if (state.filters.experienceLevel) {
-            filtered = filtered.filter(
-              (job) =>
-                job.extracted?.experienceLevel === state.filters.experienceLevel
-            );
-          }
-
-          // Apply location filter
-          if (state.filters.location) {
-            const location = state.filters.location.toLowerCase();
-            filtered = filtered.filter((job) =>
-              job.extracted?.location?.toLowerCase().includes(location)
-            );
-          }
-
-          // Apply skills filter
-          if (state.filters.skills.length > 0) {
-            filtered = filtered.filter((job) =>
-              state.filters.skills.some((skill) =>
-                job.extracted?.skills?.some((jobSkill) =>
-                  jobSkill.toLowerCase().includes(skill.toLowerCase())
-                )
-              )
-            );
-          }
-
-          return filtered;
+          filteredMemo = memoize(filteredMemo, filterInputs(state), () =>
+            filterJobs(state.jobs, state.filters, state.salaryAssumptions)
+          );
+          return filteredMemo.value;
         },
 
         getSortedJobs: () => {
           const state = get();
           const filtered = state.getFilteredJobs();
-          const sorted = [...filtered];
-
-          sorted.sort((a, b) => {
-            let aValue: string | number;
-            let bValue: string | number;
-
-            switch (state.sortField) {
-              case "createdAt":
-                aValue = new Date(a.createdAt).getTime();
-                bValue = new Date(b.createdAt).getTime();
-                break;
-              case "title":
-                aValue = a.extracted?.title || "";
-                bValue = b.extracted?.title || "";
-                break;
-              case "company":
-                aValue = a.extracted?.company || "";
-                bValue = b.extracted?.company || "";
-                break;
-              case "experienceLevel":
-                aValue = a.extracted?.experienceLevel || "";
-                bValue = b.extracted?.experienceLevel || "";
-                break;
-              default:
-                return 0;
-            }
-
-            if (aValue < bValue) return state.sortOrder === "asc" ? -1 : 1;
-            if (aValue > bValue) return state.sortOrder === "asc" ? 1 : -1;
-            return 0;
-          });
-
-          return sorted;
+          sortedMemo = memoize(
+            sortedMemo,
+            [
+              filtered,
+              state.sortField,
+              state.sortOrder,
+              useProfileStore.getState().profile,
+            ],
+            () => sortJobs(state.jobs, filtered, state)
+          );
+          return sortedMemo.value;
         },
 
         getPaginatedJobs: () => {
@@ -341,6 +1951,41 @@ export const useJobStore = create<JobState>()(
           const filtered = state.getFilteredJobs();
           return Math.ceil(filtered.length / state.itemsPerPage);
         },
+
+        // How many jobs match a saved view, and how many of those were
+        // analyzed since it was last opened
+        getViewCounts: (id: string) => {
+          const state = get();
+          const view = state.savedViews.find((v) => v.id === id);
+          if (!view) return { total: 0, newCount: 0 };
+          const matching = filterJobs(
+            state.jobs,
+            { ...defaultFilters, ...view.filters },
+            state.salaryAssumptions
+          );
+          const lastOpened = new Date(view.lastOpenedAt).getTime();
+          return {
+            total: matching.length,
+            newCount: matching.filter(
+              (job) => new Date(job.createdAt).getTime() > lastOpened
+            ).length,
+          };
+        },
+
+        getFacetCounts: () => {
+          const state = get();
+          facetsMemo = memoize(facetsMemo, filterInputs(state), () =>
+            countFacets(state.jobs, state.filters, state.salaryAssumptions)
+          );
+          return facetsMemo.value;
+        },
+
+        // Selected jobs, including any hidden by the current filters
+        getSelectedJobs: () => {
+          const state = get();
+          const selected = new Set(state.selectedJobIds);
+          return state.jobs.filter((job) => selected.has(job.id));
+        },
       }),
       {
         name: "job-store",
@@ -349,12 +1994,90 @@ export const useJobStore = create<JobState>()(
     {
       name: "freelance-finder-jobs",
       partialize: (state) => ({
-        jobs: state.jobs,
+        // Jobs waiting out the undo window stay in storage, in their place,
+        // until the server has deleted them
+        jobs: state.pendingDeletion
+          ? restoreJobs(state.jobs, state.pendingDeletion)
+          : state.jobs,
         filters: state.filters,
         sortField: state.sortField,
         sortOrder: state.sortOrder,
         itemsPerPage: state.itemsPerPage,
+        viewMode: state.viewMode,
+        salaryAssumptions: state.salaryAssumptions,
+        syncQueue: state.syncQueue,
+        discardedJobIds: state.discardedJobIds,
+        savedViews: state.savedViews,
+        activeViewId: state.activeViewId,
+        collections: state.collections,
+        // A deletion whose undo window the page didn't outlive is sent on
+        // the next start; a request fired while the page unloads may never
+        // arrive
+        pendingDeletion: state.pendingDeletion?.map(
+          ({ job, index }): PersistedDeletion => ({ id: job.id, index })
+        ),
       }),
+      // Jobs go to IndexedDB; localStorage only holds a few hundred
+      storage: createJobStorage(),
+      // Replay whatever was queued or still waiting to be deleted in a
+      // previous session. Job bodies stay in storage until a view asks for
+      // them with loadJobBodies.
+      onRehydrateStorage: () => (state) => {
+        state?.flushPendingDeletion();
+        state?.syncPendingOperations();
+      },
+      // Fill in filter fields added since the state was last persisted
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as
+          | (Partial<Omit<JobState, "pendingDeletion">> & {
+              pendingDeletion?: PersistedDeletion[];
+            })
+          | undefined;
+        // Take a persisted deletion's jobs back out of the list
+        const jobs = persisted?.jobs ?? currentState.jobs;
+        const deleting = persisted?.pendingDeletion ?? [];
+        const jobById = new Map(jobs.map((job) => [job.id, job]));
+        const pendingDeletion = deleting.flatMap(({ id, index }) => {
+          const job = jobById.get(id);
+          return job ? [{ job, index }] : [];
+        });
+        const deletingIds = new Set(pendingDeletion.map(({ job }) => job.id));
+        return {
+          ...currentState,
+          ...persisted,
+          jobs: jobs.filter((job) => !deletingIds.has(job.id)),
+          pendingDeletion: pendingDeletion.length > 0 ? pendingDeletion : null,
+          filters: { ...defaultFilters, ...persisted?.filters },
+        };
+      },
     }
   )
 );
+
+// A page open on a job queued offline follows it to its server id
+onJobIdChange((from, to) => {
+  if (
+    typeof window !== "undefined" &&
+    matchJobPath(window.location.pathname) === from
+  ) {
+    navigate(jobPath(to), { replace: true });
+  }
+});
+
+// How often to check whether the API is reachable again after a network
+// failure while the browser still reports a connection
+const RECONNECT_INTERVAL_MS = 30000;
+
+// Follow the browser's connectivity events
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () =>
+    useJobStore.getState().setOnline(true)
+  );
+  window.addEventListener("offline", () =>
+    useJobStore.getState().setOnline(false)
+  );
+  setInterval(() => {
+    const { isOnline, setOnline } = useJobStore.getState();
+    if (!isOnline && navigator.onLine) setOnline(true);
+  }, RECONNECT_INTERVAL_MS);
+}
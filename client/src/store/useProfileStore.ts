@@ -0,0 +1,94 @@
+import { create } from "zustand";
+import { devtools, persist } from "zustand/middleware";
+import type {
+  ProfileSkill,
+  SkillProficiency,
+  UserProfile,
+} from "../types/index.js";
+
+interface ProfileState {
+  // State
+  profile: UserProfile;
+
+  // Actions
+  updateProfile: (changes: Partial<UserProfile>) => void;
+  addSkill: (name: string, proficiency: SkillProficiency) => void;
+  updateSkill: (name: string, proficiency: SkillProficiency) => void;
+  removeSkill: (name: string) => void;
+  resetProfile: () => void;
+}
+
+const defaultProfile: UserProfile = {
+  skills: [],
+  preferredLocations: [],
+  targetExperienceLevel: "",
+  minimumRate: null,
+  minimumRatePeriod: "hour",
+};
+
+const sameSkill = (skill: ProfileSkill, name: string) =>
+  skill.name.toLowerCase() === name.trim().toLowerCase();
+
+export const useProfileStore = create<ProfileState>()(
+  persist(
+    devtools(
+      (set) => ({
+        // Initial state
+        profile: defaultProfile,
+
+        updateProfile: (changes: Partial<UserProfile>) =>
+          set((state) => ({ profile: { ...state.profile, ...changes } })),
+
+        // Add a skill, or update its proficiency if it is already listed
+        addSkill: (name: string, proficiency: SkillProficiency) =>
+          set((state) => {
+            const trimmed = name.trim();
+            if (!trimmed) return state;
+
+            const exists = state.profile.skills.some((s) =>
+              sameSkill(s, trimmed)
+            );
+            return {
+              profile: {
+                ...state.profile,
+                skills: exists
+                  ? state.profile.skills.map((s) =>
+                      sameSkill(s, trimmed) ? { ...s, proficiency } : s
+                    )
+                  : [...state.profile.skills, { name: trimmed, proficiency }],
+              },
+            };
+          }),
+
+        updateSkill: (name: string, proficiency: SkillProficiency) =>
+          set((state) => ({
+            profile: {
+              ...state.profile,
+              skills: state.profile.skills.map((s) =>
+                sameSkill(s, name) ? { ...s, proficiency } : s
+              ),
+            },
+          })),
+
+        removeSkill: (name: string) =>
+          set((state) => ({
+            profile: {
+              ...state.profile,
+              skills: state.profile.skills.filter((s) => !sameSkill(s, name)),
+            },
+          })),
+
+        resetProfile: () => set({ profile: defaultProfile }),
+      }),
+      {
+        name: "profile-store",
+      }
+    ),
+    {
+      name: "freelance-finder-profile",
+      partialize: (state) => ({
+        profile: state.profile,
+      }),
+    }
+  )
+);
@@ -0,0 +1,217 @@
+import { create } from "zustand";
+import { devtools, persist } from "zustand/middleware";
+import type {
+  ProposalDraft,
+  ProposalRevision,
+  ProposalSnippet,
+} from "../types/index.js";
+import { DEFAULT_PROPOSAL_TEMPLATE } from "../utils/proposal";
+import { DEFAULT_SNIPPETS } from "../utils/snippets";
+import { onJobIdChange } from "./useJobStore";
+
+interface ProposalState {
+  // State
+  template: string;
+  drafts: Record<number, ProposalDraft>;
+  // Platform whose character limit the counter shows
+  platform: string;
+  snippets: ProposalSnippet[];
+
+  // Actions
+  setTemplate: (template: string) => void;
+  resetTemplate: () => void;
+  setPlatform: (platform: string) => void;
+  saveDraft: (jobId: number, text: string) => void;
+  saveRevision: (jobId: number) => void;
+  restoreRevision: (jobId: number, index: number) => void;
+  deleteDraft: (jobId: number) => void;
+  moveDraft: (from: number, to: number) => void;
+
+  // Snippet actions
+  addSnippet: () => string;
+  updateSnippet: (id: string, changes: Partial<ProposalSnippet>) => void;
+  removeSnippet: (id: string) => void;
+  moveSnippet: (id: string, offset: -1 | 1) => void;
+}
+
+// Autosaves at least this far apart also become revisions, so there is
+// something to go back to without saving by hand
+const AUTO_REVISION_MS = 10 * 60 * 1000;
+
+// Oldest revisions are dropped past this
+const MAX_REVISIONS = 30;
+
+const withRevision = (
+  draft: ProposalDraft,
+  text: string,
+  savedAt: string
+): ProposalRevision[] => {
+  // Nothing new since the last revision
+  if (draft.revisions.at(-1)?.text === text || !text.trim()) {
+    return draft.revisions;
+  }
+  return [...draft.revisions, { text, savedAt }].slice(-MAX_REVISIONS);
+};
+
+export const useProposalStore = create<ProposalState>()(
+  persist(
+    devtools(
+      (set) => ({
+        // Initial state
+        template: DEFAULT_PROPOSAL_TEMPLATE,
+        drafts: {},
+        platform: "upwork",
+        snippets: DEFAULT_SNIPPETS,
+
+        setTemplate: (template: string) => set({ template }),
+
+        resetTemplate: () => set({ template: DEFAULT_PROPOSAL_TEMPLATE }),
+
+        setPlatform: (platform: string) => set({ platform }),
+
+        // Autosave. The text as it was before is kept as a revision when
+        // the last one is old enough.
+        saveDraft: (jobId: number, text: string) =>
+          set((state) => {
+            const now = new Date().toISOString();
+            const draft = state.drafts[jobId] ?? {
+              jobId,
+              text: "",
+              updatedAt: now,
+              revisions: [],
+            };
+            if (draft.text === text) return state;
+
+            const lastRevision = draft.revisions.at(-1);
+            const due =
+              !lastRevision ||
+              Date.now() - Date.parse(lastRevision.savedAt) >= AUTO_REVISION_MS;
+            return {
+              drafts: {
+                ...state.drafts,
+                [jobId]: {
+                  ...draft,
+                  text,
+                  updatedAt: now,
+                  revisions: due
+                    ? withRevision(draft, draft.text, draft.updatedAt)
+                    : draft.revisions,
+                },
+              },
+            };
+          }),
+
+        saveRevision: (jobId: number) =>
+          set((state) => {
+            const draft = state.drafts[jobId];
+            if (!draft) return state;
+            return {
+              drafts: {
+                ...state.drafts,
+                [jobId]: {
+                  ...draft,
+                  revisions: withRevision(
+                    draft,
+                    draft.text,
+                    new Date().toISOString()
+                  ),
+                },
+              },
+            };
+          }),
+
+        // Go back to a revision, keeping the current text as one first
+        restoreRevision: (jobId: number, index: number) =>
+          set((state) => {
+            const draft = state.drafts[jobId];
+            const revision = draft?.revisions[index];
+            if (!revision) return state;
+            const now = new Date().toISOString();
+            return {
+              drafts: {
+                ...state.drafts,
+                [jobId]: {
+                  ...draft,
+                  text: revision.text,
+                  updatedAt: now,
+                  revisions: withRevision(draft, draft.text, now),
+                },
+              },
+            };
+          }),
+
+        deleteDraft: (jobId: number) =>
+          set((state) => {
+            const drafts = { ...state.drafts };
+            delete drafts[jobId];
+            return { drafts };
+          }),
+
+        // Follow a job whose id changed
+        moveDraft: (from: number, to: number) =>
+          set((state) => {
+            const draft = state.drafts[from];
+            if (!draft) return state;
+            const drafts = { ...state.drafts, [to]: { ...draft, jobId: to } };
+            delete drafts[from];
+            return { drafts };
+          }),
+
+        // Start a new, empty snippet at the end of the library
+        addSnippet: () => {
+          const snippet: ProposalSnippet = {
+            id: `snippet-${Date.now()}`,
+            name: "New snippet",
+            text: "",
+            conditions: [],
+            match: "all",
+          };
+          set((state) => ({ snippets: [...state.snippets, snippet] }));
+          return snippet.id;
+        },
+
+        updateSnippet: (id: string, changes: Partial<ProposalSnippet>) =>
+          set((state) => ({
+            snippets: state.snippets.map((snippet) =>
+              snippet.id === id ? { ...snippet, ...changes, id } : snippet
+            ),
+          })),
+
+        removeSnippet: (id: string) =>
+          set((state) => ({
+            snippets: state.snippets.filter((snippet) => snippet.id !== id),
+          })),
+
+        // Snippets are inserted in library order
+        moveSnippet: (id: string, offset: -1 | 1) =>
+          set((state) => {
+            const index = state.snippets.findIndex((s) => s.id === id);
+            const target = index + offset;
+            if (index === -1 || target < 0 || target >= state.snippets.length) {
+              return state;
+            }
+            const snippets = [...state.snippets];
+            [snippets[index], snippets[target]] = [
+              snippets[target],
+              snippets[index],
+            ];
+            return { snippets };
+          }),
+      }),
+      {
+        name: "proposal-store",
+      }
+    ),
+    {
+      name: "freelance-finder-proposals",
+      partialize: (state) => ({
+        template: state.template,
+        drafts: state.drafts,
+        platform: state.platform,
+        snippets: state.snippets,
+      }),
+    }
+  )
+);
+
+onJobIdChange((from, to) => useProposalStore.getState().moveDraft(from, to));
@@ -0,0 +1,57 @@
+import { create } from "zustand";
+import { devtools, persist } from "zustand/middleware";
+import { onJobIdChange } from "./useJobStore";
+
+interface ReminderState {
+  // State
+  // Keys of reminders already notified (see Reminder.key)
+  notified: string[];
+
+  // Actions
+  markNotified: (keys: string[]) => void;
+  moveJobReminders: (from: number, to: number) => void;
+}
+
+// Oldest keys are dropped past this; their reminders are long past
+const MAX_NOTIFIED = 500;
+
+export const useReminderStore = create<ReminderState>()(
+  persist(
+    devtools(
+      (set) => ({
+        // Initial state
+        notified: [],
+
+        markNotified: (keys: string[]) =>
+          set((state) => ({
+            notified: [...new Set([...state.notified, ...keys])].slice(
+              -MAX_NOTIFIED
+            ),
+          })),
+
+        // Keys start with the job id; keep them when a job's id changes
+        moveJobReminders: (from: number, to: number) =>
+          set((state) => ({
+            notified: state.notified.map((key) =>
+              key.startsWith(`${from}:`)
+                ? `${to}${key.slice(String(from).length)}`
+                : key
+            ),
+          })),
+      }),
+      {
+        name: "reminder-store",
+      }
+    ),
+    {
+      name: "freelance-finder-reminders",
+      partialize: (state) => ({
+        notified: state.notified,
+      }),
+    }
+  )
+);
+
+onJobIdChange((from, to) =>
+  useReminderStore.getState().moveJobReminders(from, to)
+);
@@ -0,0 +1,79 @@
+import { create } from "zustand";
+import { devtools, persist } from "zustand/middleware";
+import {
+  createSkillResolver,
+  skillKey,
+  type SkillAlias,
+  type SkillResolver,
+} from "../utils/skillTaxonomy";
+
+interface SkillTaxonomyState {
+  // State
+  customAliases: SkillAlias[];
+
+  // Actions
+  addAlias: (alias: SkillAlias) => void;
+  removeAlias: (alias: string) => void;
+
+  // Computed getters
+  getResolver: () => SkillResolver;
+}
+
+// Rebuilding the lookup is cheap but happens on every filter pass, so reuse
+// it until the alias table changes
+let cachedAliases: SkillAlias[] | null = null;
+let cachedResolver: SkillResolver = createSkillResolver();
+
+export const useSkillTaxonomyStore = create<SkillTaxonomyState>()(
+  persist(
+    devtools(
+      (set, get) => ({
+        // Initial state
+        customAliases: [],
+
+        // Add or replace a user-defined alias
+        addAlias: (alias: SkillAlias) =>
+          set((state) => {
+            if (!alias.alias.trim() || !alias.canonical.trim()) return state;
+            return {
+              customAliases: [
+                ...state.customAliases.filter(
+                  (a) => skillKey(a.alias) !== skillKey(alias.alias)
+                ),
+                {
+                  ...alias,
+                  alias: alias.alias.trim(),
+                  canonical: alias.canonical.trim(),
+                },
+              ],
+            };
+          }),
+
+        removeAlias: (alias: string) =>
+          set((state) => ({
+            customAliases: state.customAliases.filter(
+              (a) => skillKey(a.alias) !== skillKey(alias)
+            ),
+          })),
+
+        getResolver: () => {
+          const { customAliases } = get();
+          if (customAliases !== cachedAliases) {
+            cachedAliases = customAliases;
+            cachedResolver = createSkillResolver(customAliases);
+          }
+          return cachedResolver;
+        },
+      }),
+      {
+        name: "skill-taxonomy-store",
+      }
+    ),
+    {
+      name: "freelance-finder-skill-aliases",
+      partialize: (state) => ({
+        customAliases: state.customAliases,
+      }),
+    }
+  )
+);
@@ -8,15 +8,146 @@ export interface ExtractedJobData {
   descriptionSummary: string;
 }
 
+export type ExtractedField = keyof ExtractedJobData;
+
+// Where a job's extracted fields came from: the AI, or schema.org
+// JobPosting markup on the page it was imported from
+export type ExtractionSource = "ai" | "structured";
+
+// One run of the analysis over a job's originalText
+export interface ExtractionVersion {
+  extracted: ExtractedJobData;
+  extractedJson: string;
+  analyzedAt: string;
+  source?: ExtractionSource;
+}
+
+export type ApplicationStatus =
+  | "saved"
+  | "applied"
+  | "interviewing"
+  | "offer"
+  | "rejected"
+  | "archived";
+
+export interface StatusChange {
+  status: ApplicationStatus;
+  changedAt: string;
+}
+
 export interface Job {
   id: number;
   originalText: string;
   extractedJson: string;
   extracted: ExtractedJobData | null;
   createdAt: string;
+
+  // Client-side application tracking (not stored on the server)
+  status?: ApplicationStatus;
+  statusHistory?: StatusChange[];
+  notes?: string;
+  tags?: string[];
+  // Named collection the job was moved to (see JobCollection)
+  collectionId?: string;
+  // Application deadline as a local date ("2026-11-01"), and when to
+  // follow up on the application (ISO timestamp)
+  deadline?: string;
+  followUpAt?: string;
+
+  // Extracted fields the user corrected by hand; these win over the
+  // server's values (extractedJson keeps the original AI output)
+  editedFields?: ExtractedField[];
+
+  // Every analysis of originalText once the job has been re-analyzed,
+  // oldest first, and the index of the one in use
+  extractionVersions?: ExtractionVersion[];
+  activeVersion?: number;
+
+  // Provenance of extracted; jobs from before it was recorded are "ai"
+  extractionSource?: ExtractionSource;
+
+  // Only exists in this browser (e.g. restored from a backup); never sent
+  // to or expected from the server
+  localOnly?: boolean;
+
+  // Fields of an analysis still streaming in; extracted stays null until
+  // the whole job has arrived
+  streamed?: Partial<ExtractedJobData>;
+
+  // Offline mode: a server operation queued for this job, and the error
+  // from replaying it if the server rejected it
+  pendingSync?: SyncOperationType;
+  syncConflict?: string;
+
+  // originalText and extractedJson are still in local storage and haven't
+  // been loaded yet (both are empty strings until then)
+  bodyPending?: boolean;
+}
+
+export type SyncOperationType = "analyze" | "delete";
+
+export interface SyncOperation {
+  type: SyncOperationType;
+  jobId: number;
+  queuedAt: string;
 }
 
 export interface JobRequestDto {
   jobText: string;
 }
 
+export type SalaryPeriod = "hour" | "day" | "week" | "month" | "year";
+
+export type SkillProficiency =
+  | "beginner"
+  | "intermediate"
+  | "advanced"
+  | "expert";
+
+export interface ProfileSkill {
+  name: string;
+  proficiency: SkillProficiency;
+}
+
+export interface UserProfile {
+  skills: ProfileSkill[];
+  preferredLocations: string[];
+  targetExperienceLevel: string;
+  minimumRate: number | null;
+  minimumRatePeriod: SalaryPeriod;
+}
+
+
+// A saved state of a proposal, to go back to
+export interface ProposalRevision {
+  text: string;
+  savedAt: string;
+}
+
+// The proposal being written for one job
+export interface ProposalDraft {
+  jobId: number;
+  text: string;
+  updatedAt: string;
+  // Oldest first
+  revisions: ProposalRevision[];
+}
+
+export type SnippetOperator = "contains" | "notContains" | "is" | "isNot";
+
+// One rule on a job's extracted data, e.g. skills contains "React"
+export interface SnippetCondition {
+  field: ExtractedField;
+  operator: SnippetOperator;
+  value: string;
+}
+
+// A reusable paragraph for proposals, included when its conditions hold
+export interface ProposalSnippet {
+  id: string;
+  name: string;
+  text: string;
+  // No conditions means the snippet always applies
+  conditions: SnippetCondition[];
+  match: "all" | "any";
+}
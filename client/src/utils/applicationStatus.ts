@@ -0,0 +1,40 @@
+import type { ApplicationStatus, Job } from "../types/index.js";
+
+export const APPLICATION_STATUSES: {
+  value: ApplicationStatus;
+  label: string;
+  color: string;
+}[] = [
+  { value: "saved", label: "Saved", color: "bg-gray-100 text-gray-800" },
+  { value: "applied", label: "Applied", color: "bg-blue-100 text-blue-800" },
+  {
+    value: "interviewing",
+    label: "Interviewing",
+    color: "bg-purple-100 text-purple-800",
+  },
+  { value: "offer", label: "Offer", color: "bg-green-100 text-green-800" },
+  { value: "rejected", label: "Rejected", color: "bg-red-100 text-red-800" },
+  {
+    value: "archived",
+    label: "Archived",
+    color: "bg-slate-200 text-slate-600",
+  },
+];
+
+export const DEFAULT_APPLICATION_STATUS: ApplicationStatus = "saved";
+
+// Jobs that have never been moved through the pipeline count as "saved"
+export function getJobStatus(job: Job): ApplicationStatus {
+  return job.status ?? DEFAULT_APPLICATION_STATUS;
+}
+
+export function getStatusLabel(status: ApplicationStatus): string {
+  return APPLICATION_STATUSES.find((s) => s.value === status)?.label ?? status;
+}
+
+export function getStatusColor(status: ApplicationStatus): string {
+  return (
+    APPLICATION_STATUSES.find((s) => s.value === status)?.color ??
+    "bg-gray-100 text-gray-800"
+  );
+}
@@ -0,0 +1,59 @@
+export interface BatchListing {
+  label: string;
+  text: string;
+}
+
+export const DEFAULT_BATCH_DELIMITER = "---";
+
+// Use the first non-empty line of a listing as its queue label
+export function getListingLabel(text: string, maxLength = 60): string {
+  const firstLine =
+    text
+      .split("\n")
+      .map((line) => line.trim())
+      .find((line) => line.length > 0) ?? "Untitled listing";
+  return firstLine.length > maxLength
+    ? firstLine.substring(0, maxLength) + "..."
+    : firstLine;
+}
+
+// Split pasted text into listings on lines consisting only of the delimiter
+export function splitListings(
+  text: string,
+  delimiter: string = DEFAULT_BATCH_DELIMITER
+): BatchListing[] {
+  const marker = delimiter.trim() || DEFAULT_BATCH_DELIMITER;
+  const listings: string[] = [];
+  let current: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === marker) {
+      listings.push(current.join("\n"));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  listings.push(current.join("\n"));
+
+  return listings
+    .map((listing) => listing.trim())
+    .filter((listing) => listing.length > 0)
+    .map((listing) => ({ label: getListingLabel(listing), text: listing }));
+}
+
+// Read dropped or selected .txt files, one listing per file
+export async function readListingFiles(
+  files: FileList | File[]
+): Promise<BatchListing[]> {
+  const textFiles = Array.from(files).filter(
+    (file) => file.type === "text/plain" || file.name.endsWith(".txt")
+  );
+  const listings = await Promise.all(
+    textFiles.map(async (file) => ({
+      label: file.name,
+      text: (await file.text()).trim(),
+    }))
+  );
+  return listings.filter((listing) => listing.text.length > 0);
+}
@@ -0,0 +1,150 @@
+import type { Job } from "../types/index.js";
+
+export interface SimilarJob {
+  job: Job;
+  // Jaccard similarity of the two postings' shingle sets, 0 to 1
+  similarity: number;
+}
+
+// Postings at or above this similarity are treated as the same listing
+export const DUPLICATE_THRESHOLD = 0.6;
+
+// Same title and company only needs a loosely similar text to count
+const SAME_ROLE_THRESHOLD = 0.3;
+
+const SHINGLE_SIZE = 3;
+
+// Lowercase, drop punctuation and collapse whitespace so the same listing
+// copied from different boards fingerprints the same
+export function normalizeForFingerprint(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// 32-bit FNV-1a, so shingle sets hold numbers instead of strings
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function getShingles(text: string): Set<number> {
+  const words = normalizeForFingerprint(text).split(" ").filter(Boolean);
+  const shingles = new Set<number>();
+  if (words.length < SHINGLE_SIZE) {
+    if (words.length > 0) shingles.add(hashString(words.join(" ")));
+    return shingles;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+  return shingles;
+}
+
+export function jaccardSimilarity(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const value of smaller) {
+    if (larger.has(value)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+// Job objects are replaced rather than mutated, so a WeakMap keyed by job
+// caches fingerprints for exactly as long as that version is around
+const shingleCache = new WeakMap<Job, Set<number>>();
+
+// Fingerprints of jobs whose text is still in storage (bodyPending), by id,
+// so checking for duplicates doesn't need every body in memory. A stored
+// body doesn't change until it has been loaded.
+const storedShingles = new Map<number, Set<number>>();
+
+export const hasStoredShingles = (id: number) => storedShingles.has(id);
+
+export function rememberShingles(id: number, text: string): void {
+  storedShingles.set(id, getShingles(text));
+}
+
+function getJobShingles(job: Job): Set<number> {
+  if (job.bodyPending) return storedShingles.get(job.id) ?? new Set();
+  let shingles = shingleCache.get(job);
+  if (!shingles) {
+    shingles = getShingles(job.originalText);
+    shingleCache.set(job, shingles);
+  }
+  return shingles;
+}
+
+/**
+ * Existing jobs whose posting text is near-identical to the given text,
+ * most similar first.
+ */
+export function findSimilarJobs(
+  text: string,
+  jobs: Job[],
+  threshold = DUPLICATE_THRESHOLD
+): SimilarJob[] {
+  const shingles = getShingles(text);
+  return jobs
+    .filter((job) => job.extracted)
+    .map((job) => ({
+      job,
+      similarity: jaccardSimilarity(shingles, getJobShingles(job)),
+    }))
+    .filter(({ similarity }) => similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+const roleKey = (job: Job) =>
+  `${normalizeForFingerprint(job.extracted?.title ?? "")}|${normalizeForFingerprint(
+    job.extracted?.company ?? ""
+  )}`;
+
+function areDuplicates(a: Job, b: Job): boolean {
+  const similarity = jaccardSimilarity(getJobShingles(a), getJobShingles(b));
+  if (similarity >= DUPLICATE_THRESHOLD) return true;
+  return roleKey(a) === roleKey(b) && similarity >= SAME_ROLE_THRESHOLD;
+}
+
+/**
+ * Group jobs that look like the same posting. Only groups with more than one
+ * job are returned, largest first.
+ */
+export function clusterDuplicates(jobs: Job[]): Job[][] {
+  const analyzed = jobs.filter((job) => job.extracted);
+
+  // Union-find over job indexes
+  const parent = analyzed.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < analyzed.length; i++) {
+    for (let j = i + 1; j < analyzed.length; j++) {
+      if (find(i) !== find(j) && areDuplicates(analyzed[i], analyzed[j])) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, Job[]>();
+  analyzed.forEach((job, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), job]);
+  });
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length);
+}
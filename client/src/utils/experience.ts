@@ -0,0 +1,25 @@
+export type ExperienceLevel = "entry" | "mid" | "senior" | "lead";
+
+export const EXPERIENCE_LEVELS: { value: ExperienceLevel; label: string }[] = [
+  { value: "entry", label: "Entry-level" },
+  { value: "mid", label: "Mid-level" },
+  { value: "senior", label: "Senior" },
+  { value: "lead", label: "Lead" },
+];
+
+// The extractors emit "Senior", "Mid-level", "entry" etc. Map them all onto
+// one scale so levels can be compared
+export function normalizeExperienceLevel(
+  level: string | null | undefined
+): ExperienceLevel | null {
+  const value = level?.toLowerCase() ?? "";
+  if (/\b(lead|principal|staff|head|architect)\b/.test(value)) return "lead";
+  if (/\b(senior|sr)\b/.test(value)) return "senior";
+  if (/\b(mid|intermediate)\b/.test(value)) return "mid";
+  if (/\b(entry|junior|jr|graduate|intern)\b/.test(value)) return "entry";
+  return null;
+}
+
+export function getExperienceRank(level: ExperienceLevel): number {
+  return EXPERIENCE_LEVELS.findIndex((l) => l.value === level);
+}
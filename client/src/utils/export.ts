@@ -0,0 +1,203 @@
+import type { Job } from "../types/index.js";
+import { getJobStatus, getStatusLabel } from "./applicationStatus";
+import { parseSummarySections } from "./summary";
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  { value: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+  {
+    value: "json",
+    label: "JSON",
+    extension: "json",
+    mimeType: "application/json",
+  },
+  {
+    value: "markdown",
+    label: "Markdown",
+    extension: "md",
+    mimeType: "text/markdown",
+  },
+];
+
+// Skills share one CSV cell; the import side splits on the same separator.
+// A separator or backslash inside a skill is escaped with a backslash.
+export const CSV_SKILL_SEPARATOR = "; ";
+
+const escapeCsvSkill = (skill: string) => skill.replace(/[\\;]/g, "\\$&");
+
+// Fields of a job that go into a JSON export; the rest is internal state
+// (sync, streaming and loading flags) that means nothing in a backup
+export const JSON_EXPORT_FIELDS = [
+  "id",
+  "createdAt",
+  "originalText",
+  "extractedJson",
+  "extracted",
+  "extractionSource",
+  "editedFields",
+  "status",
+  "statusHistory",
+  "notes",
+  "tags",
+  "collectionId",
+  "deadline",
+  "followUpAt",
+] as const satisfies readonly (keyof Job)[];
+
+export const CSV_COLUMNS = [
+  "id",
+  "title",
+  "company",
+  "experienceLevel",
+  "location",
+  "salaryRange",
+  "skills",
+  "descriptionSummary",
+  "status",
+  "notes",
+  "createdAt",
+  "originalText",
+] as const;
+
+// Cells starting with these are run as formulas by spreadsheet apps; a
+// leading apostrophe makes them plain text (and is dropped on import)
+export const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks and
+// double any embedded quotes
+function escapeCsvField(value: string): string {
+  const safe = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function jobsToCsv(jobs: Job[]): string {
+  const rows = jobs.map((job) => {
+    const extracted = job.extracted;
+    const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+      id: String(job.id),
+      title: extracted?.title ?? "",
+      company: extracted?.company ?? "",
+      experienceLevel: extracted?.experienceLevel ?? "",
+      location: extracted?.location ?? "",
+      salaryRange: extracted?.salaryRange ?? "",
+      skills: (extracted?.skills ?? [])
+        .map(escapeCsvSkill)
+        .join(CSV_SKILL_SEPARATOR),
+      descriptionSummary: extracted?.descriptionSummary ?? "",
+      status: getJobStatus(job),
+      notes: job.notes ?? "",
+      createdAt: job.createdAt,
+      originalText: job.originalText,
+    };
+    return CSV_COLUMNS.map((column) => escapeCsvField(values[column])).join(
+      ","
+    );
+  });
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+export function jobsToJson(jobs: Job[]): string {
+  return JSON.stringify(
+    jobs.map((job) =>
+      Object.fromEntries(JSON_EXPORT_FIELDS.map((field) => [field, job[field]]))
+    ),
+    null,
+    2
+  );
+}
+
+export function jobsToMarkdown(jobs: Job[]): string {
+  const lines: string[] = [
+    "# Job Report",
+    "",
+    `_${jobs.length} ${jobs.length === 1 ? "job" : "jobs"} exported on ${new Date().toLocaleDateString()}_`,
+  ];
+
+  for (const job of jobs) {
+    const extracted = job.extracted;
+    if (!extracted) continue;
+
+    lines.push(
+      "",
+      `## ${extracted.title || "Untitled"}${extracted.company ? ` — ${extracted.company}` : ""}`,
+      "",
+      `- **Location:** ${extracted.location || "Not specified"}`,
+      `- **Experience:** ${extracted.experienceLevel || "Not specified"}`
+    );
+    if (extracted.salaryRange) {
+      lines.push(`- **Salary:** ${extracted.salaryRange}`);
+    }
+    if (extracted.skills.length > 0) {
+      lines.push(`- **Skills:** ${extracted.skills.join(", ")}`);
+    }
+    lines.push(
+      `- **Status:** ${getStatusLabel(getJobStatus(job))}`,
+      `- **Analyzed on:** ${new Date(job.createdAt).toLocaleDateString()}`
+    );
+
+    if (extracted.descriptionSummary) {
+      lines.push("");
+      for (const { header, content } of parseSummarySections(
+        extracted.descriptionSummary
+      )) {
+        if (header) {
+          lines.push(`### ${header}`, "", content, "");
+        } else {
+          lines.push(content, "");
+        }
+      }
+    }
+
+    if (job.notes) {
+      lines.push("### Notes", "", job.notes, "");
+    }
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+export function serializeJobs(jobs: Job[], format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return jobsToCsv(jobs);
+    case "json":
+      return jobsToJson(jobs);
+    case "markdown":
+      return jobsToMarkdown(jobs);
+  }
+}
+
+// Trigger a browser download of text content
+export function downloadFile(
+  content: string,
+  filename: string,
+  mimeType: string
+): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function exportJobs(jobs: Job[], format: ExportFormat): void {
+  const { extension, mimeType } =
+    EXPORT_FORMATS.find((f) => f.value === format) ?? EXPORT_FORMATS[0];
+  const date = new Date().toISOString().substring(0, 10);
+  downloadFile(
+    serializeJobs(jobs, format),
+    `freelance-jobs-${date}.${extension}`,
+    mimeType
+  );
+}
@@ -0,0 +1,54 @@
+import type { ExtractedField, ExtractedJobData } from "../types/index.js";
+import { EXTRACTED_FIELDS } from "./sourceSpans";
+
+export interface FieldDiff {
+  field: ExtractedField;
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+  // Skills only: what the second version adds or drops
+  addedSkills: string[];
+  removedSkills: string[];
+}
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, " ");
+
+const skillsMissingFrom = (skills: string[], other: string[]) => {
+  const keys = new Set(other.map((skill) => normalize(skill).toLowerCase()));
+  return skills.filter((skill) => !keys.has(normalize(skill).toLowerCase()));
+};
+
+/**
+ * Field-by-field comparison of two extractions of the same posting.
+ * Whitespace and, for skills, case and order don't count as changes.
+ */
+export function diffExtractions(
+  before: ExtractedJobData,
+  after: ExtractedJobData
+): FieldDiff[] {
+  return EXTRACTED_FIELDS.map(({ field, label }) => {
+    if (field === "skills") {
+      const addedSkills = skillsMissingFrom(after.skills, before.skills);
+      const removedSkills = skillsMissingFrom(before.skills, after.skills);
+      return {
+        field,
+        label,
+        before: before.skills.join(", "),
+        after: after.skills.join(", "),
+        changed: addedSkills.length > 0 || removedSkills.length > 0,
+        addedSkills,
+        removedSkills,
+      };
+    }
+    return {
+      field,
+      label,
+      before: before[field],
+      after: after[field],
+      changed: normalize(before[field]) !== normalize(after[field]),
+      addedSkills: [],
+      removedSkills: [],
+    };
+  });
+}
@@ -0,0 +1,185 @@
+import type { ExtractedJobData } from "../types/index.js";
+import { fragmentToText, htmlToText } from "./htmlText";
+import { findJobPosting, jobPostingToExtracted } from "./jobPosting";
+
+// Elements that never hold the posting itself
+const NOISE_SELECTOR = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "svg",
+  "canvas",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "dialog",
+  "[hidden]",
+  "[aria-hidden='true']",
+  "[role='navigation']",
+  "[role='banner']",
+  "[role='contentinfo']",
+].join(",");
+
+// class/id words of page chrome and of posting content
+const NEGATIVE_HINT =
+  /(^|[-_\s])(nav|navbar|menu|footer|sidebar|cookie|consent|banner|share|social|comments?|related|recommended|breadcrumbs?|ads?|advert|promo|subscribe|newsletter|modal|popup|signup|login)([-_\s]|$)/i;
+const POSITIVE_HINT =
+  /(job|posting|description|vacanc|career|position|content|article|main|details)/i;
+
+// Content shorter than this is more likely a teaser than the posting
+const MIN_CONTENT_LENGTH = 200;
+
+export interface PostingPrefill {
+  title: string;
+  company: string;
+  location: string;
+  salary: string;
+}
+
+export interface HtmlExtraction {
+  // Structured fields found in JSON-LD or the page, for the user to check
+  prefill: PostingPrefill;
+  // Main content of the page as plain text
+  text: string;
+  // The page's schema.org JobPosting mapped onto the extracted fields, if
+  // it has one
+  structured: ExtractedJobData | null;
+}
+
+const hintWeight = (element: Element) => {
+  const hints = `${element.className} ${element.id}`;
+  return (
+    (POSITIVE_HINT.test(hints) ? 25 : 0) - (NEGATIVE_HINT.test(hints) ? 25 : 0)
+  );
+};
+
+const linkDensity = (element: Element) => {
+  const textLength = (element.textContent ?? "").trim().length;
+  if (textLength === 0) return 1;
+  let linkLength = 0;
+  element.querySelectorAll("a").forEach((link) => {
+    linkLength += (link.textContent ?? "").trim().length;
+  });
+  return linkLength / textLength;
+};
+
+/**
+ * The element most likely to hold the page's main content, readability
+ * style: paragraphs score by length and commas, the score flows to their
+ * parent and grandparent, and link-heavy or chrome-like containers lose.
+ */
+function findMainContent(body: HTMLElement): Element {
+  const scores = new Map<Element, number>();
+  const addScore = (element: Element | null, score: number) => {
+    if (!element || element === body.parentElement) return;
+    if (!scores.has(element)) {
+      const base =
+        element.tagName === "ARTICLE" || element.tagName === "MAIN" ? 10 : 0;
+      scores.set(element, base + hintWeight(element));
+    }
+    scores.set(element, scores.get(element)! + score);
+  };
+
+  body.querySelectorAll("p, li, pre, td, dd").forEach((paragraph) => {
+    const text = (paragraph.textContent ?? "").trim();
+    if (text.length < 25) return;
+    const score =
+      1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(paragraph.parentElement, score);
+    addScore(paragraph.parentElement?.parentElement ?? null, score / 2);
+  });
+
+  let best: Element = body;
+  let bestScore = -Infinity;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  return (best.textContent ?? "").trim().length >= MIN_CONTENT_LENGTH
+    ? best
+    : body;
+}
+
+/**
+ * Pull the job posting out of a saved page or pasted HTML: structured
+ * fields from JSON-LD or microdata where present (falling back to the
+ * page's heading and meta tags), and the main content without navigation and other chrome.
+ */
+export function extractPostingFromHtml(html: string): HtmlExtraction {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const jobPosting = findJobPosting(doc);
+  const structured = jobPosting ? jobPostingToExtracted(jobPosting) : null;
+  const meta = (property: string) =>
+    doc
+      .querySelector(`meta[property="${property}"], meta[name="${property}"]`)
+      ?.getAttribute("content")
+      ?.trim() ?? "";
+
+  doc.body.querySelectorAll(NOISE_SELECTOR).forEach((el) => el.remove());
+  doc.body.querySelectorAll("[class], [id]").forEach((el) => {
+    if (NEGATIVE_HINT.test(`${el.className} ${el.id}`) && !el.closest("main")) {
+      el.remove();
+    }
+  });
+
+  const contentText = htmlToText(findMainContent(doc.body));
+  const postingText =
+    typeof jobPosting?.description === "string"
+      ? fragmentToText(jobPosting.description)
+      : "";
+
+  return {
+    prefill: {
+      title:
+        structured?.title ||
+        doc.querySelector("h1")?.textContent?.trim() ||
+        meta("og:title") ||
+        doc.title.trim(),
+      company: structured?.company || meta("og:site_name"),
+      location: structured?.location ?? "",
+      salary: structured?.salaryRange ?? "",
+    },
+    // The structured description is the posting itself; prefer it unless the
+    // page has noticeably more to say
+    text:
+      postingText.length >= contentText.length * 0.6
+        ? postingText
+        : contentText,
+    structured,
+  };
+}
+
+/**
+ * The text sent for analysis: checked structured fields on top, so the
+ * model doesn't have to guess them, then the posting.
+ */
+export function composeListingText(
+  prefill: PostingPrefill,
+  text: string
+): string {
+  const header = (
+    [
+      ["Title", prefill.title],
+      ["Company", prefill.company],
+      ["Location", prefill.location],
+      ["Salary", prefill.salary],
+    ] as const
+  )
+    .filter(([, value]) => value.trim())
+    .map(([label, value]) => `${label}: ${value.trim()}`);
+  return [...header, header.length > 0 ? "" : null, text.trim()]
+    .filter((line) => line !== null)
+    .join("\n");
+}
+
+// Files a user might have saved a posting as
+export const isHtmlFile = (file: File) =>
+  /\.html?$/i.test(file.name) || file.type === "text/html";
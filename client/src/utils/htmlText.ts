@@ -0,0 +1,60 @@
+// Block-level elements start a new line in the text
+const BLOCK_TAGS = new Set([
+  "ADDRESS",
+  "ARTICLE",
+  "BLOCKQUOTE",
+  "DD",
+  "DIV",
+  "DL",
+  "DT",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "HR",
+  "LI",
+  "MAIN",
+  "OL",
+  "P",
+  "PRE",
+  "SECTION",
+  "TABLE",
+  "TR",
+  "UL",
+]);
+
+/**
+ * Plain text of an element, keeping paragraphs and list items on their own
+ * lines.
+ */
+export function htmlToText(root: Node): string {
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push((node.textContent ?? "").replace(/\s+/g, " "));
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    const block = BLOCK_TAGS.has(node.tagName);
+    if (node.tagName === "BR") parts.push("\n");
+    if (block) parts.push("\n");
+    if (node.tagName === "LI") parts.push("- ");
+    node.childNodes.forEach(walk);
+    // The next item's own line break is enough between list items
+    if (block && node.tagName !== "LI") parts.push("\n");
+  };
+  walk(root);
+  return parts
+    .join("")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Text of an HTML fragment (e.g. a JSON-LD description)
+export const fragmentToText = (html: string) =>
+  htmlToText(new DOMParser().parseFromString(html, "text/html").body);
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { Job } from "../types/index.js";
+import { jobsToCsv, jobsToJson } from "./export";
+import { parseImportFile, resolveImport, validateJobRecord } from "./import";
+
+const makeJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 7,
+  originalText: "Senior React developer wanted",
+  extractedJson: "",
+  extracted: {
+    title: "Senior React Developer",
+    company: "Acme",
+    skills: ["React", "TypeScript"],
+    experienceLevel: "Senior",
+    location: "Remote",
+    salaryRange: "$80k-$100k",
+    descriptionSummary: "Build things.",
+  },
+  createdAt: "2026-10-01T12:00:00.000Z",
+  ...overrides,
+});
+
+describe("validateJobRecord", () => {
+  it("rejects a missing or empty id", () => {
+    expect(validateJobRecord({ ...makeJob(), id: undefined }).errors).toContain(
+      "id must be a number"
+    );
+    expect(validateJobRecord({ ...makeJob(), id: "" }).errors).toContain(
+      "id must be a number"
+    );
+  });
+
+  it("reports every malformed extracted field", () => {
+    const { job, errors } = validateJobRecord({
+      ...makeJob(),
+      extracted: { title: 1, skills: "React" },
+    });
+    expect(job).toBeNull();
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        "extracted.title must be a string",
+        "extracted.company must be a string",
+        "extracted.skills must be a list of strings",
+      ])
+    );
+  });
+
+  it("rejects invalid tracking fields", () => {
+    const { errors } = validateJobRecord({
+      ...makeJob(),
+      deadline: "next week",
+      editedFields: ["salary"],
+    });
+    expect(errors).toEqual([
+      "deadline must be a date like 2026-11-01",
+      "editedFields must be a list of extracted field names",
+    ]);
+  });
+});
+
+describe("parseImportFile", () => {
+  it("keeps tracking fields of a JSON export and drops internal flags", () => {
+    const exported = makeJob({
+      status: "applied",
+      tags: ["shortlist"],
+      collectionId: "collection-1",
+      deadline: "2026-11-01",
+      followUpAt: "2026-10-20T09:00:00.000Z",
+      editedFields: ["title"],
+      extractionSource: "structured",
+      pendingSync: "delete",
+      bodyPending: true,
+    });
+    const json = jobsToJson([exported]);
+    expect(json).not.toContain("pendingSync");
+    expect(json).not.toContain("bodyPending");
+
+    const { candidates, errors } = parseImportFile("jobs.json", json, []);
+    expect(errors).toEqual([]);
+    expect(candidates[0].job).toMatchObject({
+      status: "applied",
+      tags: ["shortlist"],
+      collectionId: "collection-1",
+      deadline: "2026-11-01",
+      followUpAt: "2026-10-20T09:00:00.000Z",
+      editedFields: ["title"],
+      extractionSource: "structured",
+    });
+  });
+
+  it("reads back skills containing the separator", () => {
+    const job = makeJob();
+    job.extracted!.skills = ["a", "b;c", "d\\e"];
+    const { candidates } = parseImportFile("jobs.csv", jobsToCsv([job]), []);
+    expect(candidates[0].job.extracted?.skills).toEqual(["a", "b;c", "d\\e"]);
+  });
+
+  it("guards formula-like cells and reads them back unchanged", () => {
+    const csv = jobsToCsv([makeJob({ id: -5, notes: "=HYPERLINK()" })]);
+    expect(csv).toContain("'=HYPERLINK()");
+    const { candidates } = parseImportFile("jobs.csv", csv, []);
+    expect(candidates[0].job).toMatchObject({ id: -5, notes: "=HYPERLINK()" });
+  });
+});
+
+describe("resolveImport", () => {
+  it("gives new jobs fresh negative ids, even when ids repeat", () => {
+    const existing = [makeJob({ id: -10, originalText: "Other" })];
+    const candidates = [
+      { row: 1, job: makeJob({ id: 3 }), duplicateOf: null },
+      { row: 2, job: makeJob({ id: 3 }), duplicateOf: null },
+    ];
+    const [first, second] = resolveImport(candidates, {}, existing);
+    expect(first.id).toBeLessThan(-10);
+    expect(second.id).toBeLessThan(first.id);
+    expect(first.localOnly).toBe(true);
+  });
+
+  it("keeps overwritten fields of a server job as hand edits", () => {
+    const serverJob = makeJob({ id: 42 });
+    const imported = makeJob({ id: 42, notes: "Call back" });
+    imported.extracted = { ...imported.extracted!, title: "Lead Developer" };
+
+    const [job] = resolveImport(
+      [{ row: 1, job: imported, duplicateOf: serverJob }],
+      { 1: "overwrite" },
+      [serverJob]
+    );
+    expect(job).toMatchObject({
+      id: 42,
+      notes: "Call back",
+      editedFields: ["title"],
+      extracted: { title: "Lead Developer" },
+    });
+    expect(job.localOnly).toBeUndefined();
+  });
+});
@@ -0,0 +1,469 @@
+import type {
+  ApplicationStatus,
+  ExtractedField,
+  ExtractedJobData,
+  ExtractionSource,
+  Job,
+  StatusChange,
+} from "../types/index.js";
+import { APPLICATION_STATUSES } from "./applicationStatus";
+import { EXTRACTED_FIELDS } from "./sourceSpans";
+import { normalizeTags } from "./tags";
+import { CSV_COLUMNS, CSV_FORMULA_PREFIX, CSV_SKILL_SEPARATOR } from "./export";
+
+export type DuplicateResolution = "skip" | "overwrite" | "keep-both";
+
+export interface ImportRowError {
+  // 1-based row (CSV, excluding the header) or array index + 1 (JSON)
+  row: number;
+  messages: string[];
+}
+
+export interface ImportCandidate {
+  row: number;
+  job: Job;
+  // Existing job this one appears to duplicate
+  duplicateOf: Job | null;
+}
+
+export interface ImportResult {
+  candidates: ImportCandidate[];
+  errors: ImportRowError[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isApplicationStatus = (value: unknown): value is ApplicationStatus =>
+  APPLICATION_STATUSES.some((s) => s.value === value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+const isStatusHistory = (value: unknown): value is StatusChange[] =>
+  Array.isArray(value) &&
+  value.every(
+    (change) =>
+      isRecord(change) &&
+      isApplicationStatus(change.status) &&
+      isString(change.changedAt)
+  );
+
+const isExtractedFieldList = (value: unknown): value is ExtractedField[] =>
+  Array.isArray(value) &&
+  value.every((field) => EXTRACTED_FIELDS.some((f) => f.field === field));
+
+const isExtractionSource = (value: unknown): value is ExtractionSource =>
+  value === "ai" || value === "structured";
+
+// "2026-11-01", as the deadline input stores it
+const isLocalDate = (value: unknown): value is string =>
+  isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isDateString = (value: unknown): value is string =>
+  isString(value) && !Number.isNaN(new Date(value).getTime());
+
+// An optional field: undefined when missing, or the value if it is valid
+function readOptional<T>(
+  value: unknown,
+  isValid: (value: unknown) => value is T,
+  message: string,
+  errors: string[]
+): T | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (isValid(value)) return value;
+  errors.push(message);
+  return undefined;
+}
+
+// Ids in CSV files are strings; an empty one is missing, not 0
+function readId(value: unknown): number | null {
+  const id = isString(value) && value.trim() !== "" ? Number(value) : value;
+  return typeof id === "number" && Number.isFinite(id) ? id : null;
+}
+
+function readExtracted(
+  value: unknown,
+  errors: string[]
+): ExtractedJobData | null {
+  if (!isRecord(value)) {
+    errors.push("extracted must be an object");
+    return null;
+  }
+  const errorCount = errors.length;
+  const text = (field: Exclude<ExtractedField, "skills">) => {
+    const fieldValue = value[field];
+    if (isString(fieldValue)) return fieldValue;
+    errors.push(`extracted.${field} must be a string`);
+    return "";
+  };
+  const extracted: ExtractedJobData = {
+    title: text("title"),
+    company: text("company"),
+    skills: isStringList(value.skills) ? value.skills : [],
+    experienceLevel: text("experienceLevel"),
+    location: text("location"),
+    salaryRange: text("salaryRange"),
+    descriptionSummary: text("descriptionSummary"),
+  };
+  if (!isStringList(value.skills)) {
+    errors.push("extracted.skills must be a list of strings");
+  }
+  return errors.length === errorCount ? extracted : null;
+}
+
+/**
+ * Minimal RFC 4180 parser: handles quoted fields with embedded commas,
+ * doubled quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Check an untyped record against the Job/ExtractedJobData shape and build a
+ * Job from it. Returns the errors instead when the record doesn't fit.
+ */
+export function validateJobRecord(
+  raw: unknown
+): { job: Job; errors: [] } | { job: null; errors: string[] } {
+  const errors: string[] = [];
+  if (!isRecord(raw)) {
+    return { job: null, errors: ["Expected an object"] };
+  }
+
+  const id = readId(raw.id);
+  if (id === null) {
+    errors.push("id must be a number");
+  }
+
+  const { createdAt, originalText } = raw;
+  if (!isDateString(createdAt)) {
+    errors.push("createdAt must be a valid date");
+  }
+  if (!isString(originalText)) {
+    errors.push("originalText must be a string");
+  }
+
+  const extracted = readExtracted(raw.extracted, errors);
+
+  const job = {
+    status: readOptional(
+      raw.status,
+      isApplicationStatus,
+      `status must be one of ${APPLICATION_STATUSES.map((s) => s.value).join(", ")}`,
+      errors
+    ),
+    statusHistory: readOptional(
+      raw.statusHistory,
+      isStatusHistory,
+      "statusHistory must be a list of { status, changedAt }",
+      errors
+    ),
+    notes: readOptional(raw.notes, isString, "notes must be a string", errors),
+    tags: readOptional(
+      raw.tags,
+      isStringList,
+      "tags must be a list of strings",
+      errors
+    ),
+    collectionId: readOptional(
+      raw.collectionId,
+      isString,
+      "collectionId must be a string",
+      errors
+    ),
+    deadline: readOptional(
+      raw.deadline,
+      isLocalDate,
+      "deadline must be a date like 2026-11-01",
+      errors
+    ),
+    followUpAt: readOptional(
+      raw.followUpAt,
+      isDateString,
+      "followUpAt must be a valid date",
+      errors
+    ),
+    editedFields: readOptional(
+      raw.editedFields,
+      isExtractedFieldList,
+      "editedFields must be a list of extracted field names",
+      errors
+    ),
+    extractionSource: readOptional(
+      raw.extractionSource,
+      isExtractionSource,
+      'extractionSource must be "ai" or "structured"',
+      errors
+    ),
+  };
+
+  if (
+    errors.length > 0 ||
+    id === null ||
+    !isDateString(createdAt) ||
+    !isString(originalText) ||
+    !extracted
+  ) {
+    return { job: null, errors };
+  }
+
+  return {
+    job: {
+      ...job,
+      id,
+      originalText,
+      extractedJson: isString(raw.extractedJson)
+        ? raw.extractedJson
+        : JSON.stringify(extracted),
+      extracted,
+      createdAt,
+      tags: job.tags && normalizeTags(job.tags),
+    },
+    errors: [],
+  };
+}
+
+// Split a skills cell on the separators that aren't escaped with a
+// backslash (see jobsToCsv)
+function splitCsvSkills(cell: string): string[] {
+  const separator = CSV_SKILL_SEPARATOR.trim();
+  const skills: string[] = [];
+  let skill = "";
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === "\\" && i + 1 < cell.length) {
+      skill += cell[++i];
+    } else if (cell[i] === separator) {
+      skills.push(skill);
+      skill = "";
+    } else {
+      skill += cell[i];
+    }
+  }
+  skills.push(skill);
+  return skills.map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
+// Turn CSV rows produced by jobsToCsv back into Job-shaped records
+function csvToRecords(text: string): { records: unknown[]; errors: string[] } {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { records: [], errors: ["The file is empty"] };
+
+  const columns = header.map((column) => column.trim());
+  const missing = CSV_COLUMNS.filter(
+    (column) =>
+      column !== "status" && column !== "notes" && !columns.includes(column)
+  );
+  if (missing.length > 0) {
+    return { records: [], errors: [`Missing columns: ${missing.join(", ")}`] };
+  }
+
+  const records = rows.map((row) => {
+    const value = (column: string) => {
+      const cell = row[columns.indexOf(column)] ?? "";
+      // Undo the apostrophe jobsToCsv puts before formula-like cells
+      return cell.startsWith("'") && CSV_FORMULA_PREFIX.test(cell.slice(1))
+        ? cell.slice(1)
+        : cell;
+    };
+    return {
+      id: value("id"),
+      originalText: value("originalText"),
+      createdAt: value("createdAt"),
+      status: value("status") || undefined,
+      notes: value("notes") || undefined,
+      extracted: {
+        title: value("title"),
+        company: value("company"),
+        experienceLevel: value("experienceLevel"),
+        location: value("location"),
+        salaryRange: value("salaryRange"),
+        descriptionSummary: value("descriptionSummary"),
+        skills: splitCsvSkills(value("skills")),
+      },
+    };
+  });
+  return { records, errors: [] };
+}
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/\s+/g, " ").trim();
+
+// An existing job counts as a duplicate if it has the same id, the same
+// posting text, or the same title at the same company
+export function findDuplicate(job: Job, existing: Job[]): Job | null {
+  const text = normalizeText(job.originalText);
+  const title = normalizeText(job.extracted?.title ?? "");
+  const company = normalizeText(job.extracted?.company ?? "");
+
+  return (
+    existing.find((other) => other.id === job.id) ??
+    existing.find(
+      (other) => text !== "" && normalizeText(other.originalText) === text
+    ) ??
+    existing.find(
+      (other) =>
+        title !== "" &&
+        company !== "" &&
+        normalizeText(other.extracted?.title ?? "") === title &&
+        normalizeText(other.extracted?.company ?? "") === company
+    ) ??
+    null
+  );
+}
+
+/**
+ * Parse a JSON or CSV backup, validate every row and flag rows that
+ * duplicate a job already in the store.
+ */
+export function parseImportFile(
+  fileName: string,
+  text: string,
+  existing: Job[]
+): ImportResult {
+  let records: unknown[] = [];
+
+  if (fileName.toLowerCase().endsWith(".csv")) {
+    const parsed = csvToRecords(text);
+    if (parsed.errors.length > 0) {
+      return { candidates: [], errors: [{ row: 0, messages: parsed.errors }] };
+    }
+    records = parsed.records;
+  } else {
+    try {
+      const data: unknown = JSON.parse(text);
+      records = Array.isArray(data) ? data : [data];
+    } catch {
+      return {
+        candidates: [],
+        errors: [{ row: 0, messages: ["The file is not valid JSON"] }],
+      };
+    }
+  }
+
+  const candidates: ImportCandidate[] = [];
+  const errors: ImportRowError[] = [];
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const { job, errors: messages } = validateJobRecord(record);
+    if (job) {
+      candidates.push({ row, job, duplicateOf: findDuplicate(job, existing) });
+    } else {
+      errors.push({ row, messages });
+    }
+  });
+
+  return { candidates, errors };
+}
+
+// Local-only jobs get negative ids so they never collide with server ids,
+// below every id already in use
+export const nextLocalJobId = (jobs: Job[]): number =>
+  Math.min(
+    -Date.now(),
+    jobs.reduce((min, job) => Math.min(min, job.id), 0) - 1
+  );
+
+// Overwriting a server job keeps its id and text. The server hands its own
+// extraction back on every fetch, so imported values that differ from it
+// are kept as hand edits.
+function overwriteJob(existing: Job, imported: Job): Job {
+  if (existing.localOnly) {
+    return { ...imported, id: existing.id, localOnly: true };
+  }
+  const changed = EXTRACTED_FIELDS.map(({ field }) => field).filter(
+    (field) =>
+      JSON.stringify(imported.extracted?.[field]) !==
+      JSON.stringify(existing.extracted?.[field])
+  );
+  return {
+    ...existing,
+    extracted: imported.extracted,
+    editedFields: [...new Set([...(existing.editedFields ?? []), ...changed])],
+    status: imported.status,
+    statusHistory: imported.statusHistory,
+    notes: imported.notes,
+    tags: imported.tags,
+    collectionId: imported.collectionId,
+    deadline: imported.deadline,
+    followUpAt: imported.followUpAt,
+  };
+}
+
+/**
+ * Apply the user's duplicate resolutions and produce the jobs to merge into
+ * the store. Imported jobs that don't replace an existing one become
+ * local-only jobs with fresh ids; the ids in the file may belong to another
+ * server or repeat.
+ */
+export function resolveImport(
+  candidates: ImportCandidate[],
+  resolutions: Record<number, DuplicateResolution>,
+  existing: Job[]
+): Job[] {
+  let nextLocalId = nextLocalJobId(existing);
+  const asLocalJob = (job: Job): Job => ({
+    ...job,
+    id: nextLocalId--,
+    localOnly: true,
+  });
+
+  return candidates.flatMap(({ row, job, duplicateOf }) => {
+    if (!duplicateOf) {
+      return [asLocalJob(job)];
+    }
+
+    switch (resolutions[row] ?? "skip") {
+      case "skip":
+        return [];
+      case "overwrite":
+        return [overwriteJob(duplicateOf, job)];
+      case "keep-both":
+        return [asLocalJob(job)];
+    }
+  });
+}
@@ -0,0 +1,189 @@
+import type { Job } from "../types/index.js";
+import { EXPERIENCE_LEVELS, normalizeExperienceLevel } from "./experience";
+import { LOCATION_TYPES, classifyLocation } from "./location";
+import { getJobAnnualSalary, type SalaryAssumptions } from "./salary";
+import { defaultSkillResolver, type SkillResolver } from "./skillTaxonomy";
+
+export interface CountEntry {
+  label: string;
+  count: number;
+}
+
+export interface SkillTrend {
+  periods: string[];
+  series: { skill: string; counts: number[]; total: number }[];
+}
+
+export interface SkillSalary {
+  skill: string;
+  count: number;
+  min: number;
+  median: number;
+  max: number;
+}
+
+export interface SkillPair {
+  skills: [string, string];
+  count: number;
+}
+
+const UNSPECIFIED = "Not specified";
+
+const sortByCount = (counts: Map<string, number>, limit?: number) =>
+  [...counts.entries()]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit);
+
+const increment = (counts: Map<string, number>, key: string) =>
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+
+const jobSkills = (job: Job, resolver: SkillResolver) =>
+  resolver.canonicalize(job.extracted?.skills ?? []);
+
+// "2025-03" style key for the month a job was analyzed
+const monthKey = (job: Job) => job.createdAt.substring(0, 7);
+
+export function getTopSkills(
+  jobs: Job[],
+  resolver: SkillResolver = defaultSkillResolver,
+  limit = 10
+): CountEntry[] {
+  const counts = new Map<string, number>();
+  for (const job of jobs) {
+    for (const skill of jobSkills(job, resolver)) increment(counts, skill);
+  }
+  return sortByCount(counts, limit);
+}
+
+/**
+ * Monthly demand for the most requested skills, oldest month first.
+ */
+export function getSkillTrend(
+  jobs: Job[],
+  resolver: SkillResolver = defaultSkillResolver,
+  limit = 8
+): SkillTrend {
+  const periods = [...new Set(jobs.map(monthKey))].sort();
+  const topSkills = getTopSkills(jobs, resolver, limit);
+
+  const series = topSkills.map(({ label, count }) => ({
+    skill: label,
+    total: count,
+    counts: periods.map(
+      (period) =>
+        jobs.filter(
+          (job) =>
+            monthKey(job) === period && jobSkills(job, resolver).includes(label)
+        ).length
+    ),
+  }));
+
+  return { periods, series };
+}
+
+export function getExperienceDistribution(jobs: Job[]): CountEntry[] {
+  const counts = new Map<string, number>();
+  for (const job of jobs) {
+    const level = normalizeExperienceLevel(job.extracted?.experienceLevel);
+    const label =
+      EXPERIENCE_LEVELS.find((l) => l.value === level)?.label ?? UNSPECIFIED;
+    increment(counts, label);
+  }
+  return sortByCount(counts);
+}
+
+export function getLocationDistribution(jobs: Job[]): CountEntry[] {
+  const counts = new Map<string, number>();
+  for (const job of jobs) {
+    const type = classifyLocation(job.extracted?.location);
+    const label =
+      LOCATION_TYPES.find((t) => t.value === type)?.label ?? UNSPECIFIED;
+    increment(counts, label);
+  }
+  return sortByCount(counts);
+}
+
+export function getTopCompanies(jobs: Job[], limit = 10): CountEntry[] {
+  const counts = new Map<string, number>();
+  for (const job of jobs) {
+    const company = job.extracted?.company?.trim();
+    if (company && company !== UNSPECIFIED) increment(counts, company);
+  }
+  return sortByCount(counts, limit);
+}
+
+/**
+ * Annualized salary spread per skill. Salaries in different currencies
+ * can't be compared, so only the most common currency is used.
+ */
+export function getSalaryBySkill(
+  jobs: Job[],
+  resolver: SkillResolver = defaultSkillResolver,
+  assumptions?: SalaryAssumptions,
+  limit = 10
+): { currency: string; skills: SkillSalary[] } {
+  const salaried = jobs.flatMap((job) => {
+    const salary = getJobAnnualSalary(job, assumptions);
+    return salary ? [{ job, salary }] : [];
+  });
+
+  const currencyCounts = new Map<string, number>();
+  for (const { salary } of salaried) increment(currencyCounts, salary.currency);
+  const currency = sortByCount(currencyCounts, 1)[0]?.label ?? "";
+
+  const midpointsBySkill = new Map<string, number[]>();
+  for (const { job, salary } of salaried) {
+    if (salary.currency !== currency) continue;
+    const midpoint = (salary.min + salary.max) / 2;
+    for (const skill of jobSkills(job, resolver)) {
+      midpointsBySkill.set(skill, [
+        ...(midpointsBySkill.get(skill) ?? []),
+        midpoint,
+      ]);
+    }
+  }
+
+  const skills = [...midpointsBySkill.entries()]
+    .map(([skill, values]) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return {
+        skill,
+        count: sorted.length,
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        median:
+          sorted.length % 2 === 0
+            ? (sorted[middle - 1] + sorted[middle]) / 2
+            : sorted[middle],
+      };
+    })
+    .sort((a, b) => b.count - a.count || b.median - a.median)
+    .slice(0, limit);
+
+  return { currency, skills };
+}
+
+// Skill pairs that appear together in the same posting most often
+export function getSkillCooccurrence(
+  jobs: Job[],
+  resolver: SkillResolver = defaultSkillResolver,
+  limit = 10
+): SkillPair[] {
+  const counts = new Map<string, number>();
+  for (const job of jobs) {
+    const skills = [...jobSkills(job, resolver)].sort();
+    for (let i = 0; i < skills.length; i++) {
+      for (let j = i + 1; j < skills.length; j++) {
+        increment(counts, `${skills[i]}\u0000${skills[j]}`);
+      }
+    }
+  }
+  return sortByCount(counts, limit)
+    .filter(({ count }) => count > 1)
+    .map(({ label, count }) => ({
+      skills: label.split("\u0000") as [string, string],
+      count,
+    }));
+}
@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { findJobPosting, jobPostingToExtracted } from "./jobPosting";
+
+const parse = (html: string) =>
+  new DOMParser().parseFromString(html, "text/html");
+
+const jsonLd = (...blocks: string[]) =>
+  parse(
+    blocks
+      .map((block) => `<script type="application/ld+json">${block}</script>`)
+      .join("")
+  );
+
+describe("findJobPosting", () => {
+  it("finds a JobPosting inside a JSON-LD @graph", () => {
+    const doc = jsonLd(
+      JSON.stringify({
+        "@context": "https://schema.org",
+        "@graph": [
+          { "@type": "WebPage", name: "Careers" },
+          { "@type": "JobPosting", title: "Backend Engineer" },
+        ],
+      })
+    );
+    expect(findJobPosting(doc)).toMatchObject({ title: "Backend Engineer" });
+  });
+
+  it("skips malformed scripts and accepts a list of types", () => {
+    const doc = jsonLd(
+      "{ not json",
+      JSON.stringify([
+        { "@type": "Organization", name: "Acme" },
+        { "@type": ["JobPosting", "Thing"], title: "Data Analyst" },
+      ])
+    );
+    expect(findJobPosting(doc)).toMatchObject({ title: "Data Analyst" });
+  });
+
+  it("reads microdata, including nested items and repeated properties", () => {
+    const doc = parse(`
+      <div itemscope itemtype="https://schema.org/JobPosting">
+        <h1 itemprop="title">Frontend Developer</h1>
+        <div itemprop="hiringOrganization" itemscope
+          itemtype="https://schema.org/Organization">
+          <span itemprop="name">Acme</span>
+        </div>
+        <ul>
+          <li itemprop="skills">React</li>
+          <li itemprop="skills">TypeScript</li>
+        </ul>
+        <meta itemprop="datePosted" content="2026-10-01">
+      </div>
+    `);
+    const posting = findJobPosting(doc);
+    expect(posting).toMatchObject({
+      "@type": "JobPosting",
+      title: "Frontend Developer",
+      hiringOrganization: { "@type": "Organization", name: "Acme" },
+      skills: ["React", "TypeScript"],
+      datePosted: "2026-10-01",
+    });
+    expect(jobPostingToExtracted(posting!)).toMatchObject({
+      title: "Frontend Developer",
+      company: "Acme",
+      skills: ["React", "TypeScript"],
+    });
+  });
+
+  it("returns null for pages without a JobPosting", () => {
+    expect(findJobPosting(parse("<p>Hello</p>"))).toBeNull();
+  });
+});
+
+describe("jobPostingToExtracted", () => {
+  const salaryOf = (baseSalary: unknown) =>
+    jobPostingToExtracted({ "@type": "JobPosting", baseSalary }).salaryRange;
+
+  it("formats a QuantitativeValue salary range with its unit", () => {
+    expect(
+      salaryOf({
+        "@type": "MonetaryAmount",
+        currency: "USD",
+        value: {
+          "@type": "QuantitativeValue",
+          minValue: 90000,
+          maxValue: 120000,
+          unitText: "YEAR",
+        },
+      })
+    ).toBe("USD 90000 - 120000 per year");
+  });
+
+  it("formats a single QuantitativeValue amount or a plain value", () => {
+    expect(
+      salaryOf({
+        currency: "EUR",
+        value: { "@type": "QuantitativeValue", value: 60, unitText: "HOUR" },
+      })
+    ).toBe("EUR 60 per hour");
+    expect(salaryOf({ currency: "GBP", value: 5000 })).toBe("GBP 5000");
+    expect(salaryOf("Competitive")).toBe("Competitive");
+  });
+
+  it("maps remote locations and experience requirements", () => {
+    const extracted = jobPostingToExtracted({
+      "@type": "JobPosting",
+      name: "Platform Engineer",
+      hiringOrganization: "Globex",
+      jobLocationType: "TELECOMMUTE",
+      applicantLocationRequirements: { "@type": "Country", name: "Canada" },
+      experienceRequirements: {
+        "@type": "OccupationalExperienceRequirements",
+        monthsOfExperience: 36,
+      },
+      skills: "Go, Kubernetes; Terraform",
+    });
+    expect(extracted).toMatchObject({
+      title: "Platform Engineer",
+      company: "Globex",
+      location: "Remote (Canada)",
+      experienceLevel: "Mid-level",
+      skills: ["Go", "Kubernetes", "Terraform"],
+    });
+  });
+});
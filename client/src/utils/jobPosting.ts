@@ -0,0 +1,250 @@
+import type { ExtractedField, ExtractedJobData } from "../types/index.js";
+import { EXPERIENCE_LEVELS, normalizeExperienceLevel } from "./experience";
+import { fragmentToText } from "./htmlText";
+
+// A schema.org JobPosting as found in the page, JSON-LD or microdata read
+// into the same shape
+export type JobPostingData = Record<string, unknown>;
+
+// Fields a structured result needs before the AI call is skipped, and how
+// many of all fields must be filled
+const REQUIRED_FIELDS: ExtractedField[] = ["title", "company", "skills"];
+const MIN_FILLED_FIELDS = 5;
+
+// Roughly how long a summary taken from the description runs
+const SUMMARY_LENGTH = 300;
+
+const isJobPosting = (value: unknown): value is JobPostingData => {
+  if (typeof value !== "object" || value === null) return false;
+  const type = (value as JobPostingData)["@type"];
+  return Array.isArray(type)
+    ? type.includes("JobPosting")
+    : type === "JobPosting";
+};
+
+// Depth-first search through JSON-LD, including @graph and nested arrays
+function findJobPostingIn(value: unknown): JobPostingData | null {
+  if (isJobPosting(value)) return value;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findJobPostingIn(item);
+      if (found) return found;
+    }
+  } else if (typeof value === "object" && value !== null) {
+    const graph = (value as JobPostingData)["@graph"];
+    if (graph) return findJobPostingIn(graph);
+  }
+  return null;
+}
+
+// The value of one microdata property, per the HTML spec
+function microdataValue(element: Element): string {
+  switch (element.tagName) {
+    case "META":
+      return element.getAttribute("content") ?? "";
+    case "A":
+    case "LINK":
+    case "AREA":
+      return element.getAttribute("href") ?? "";
+    case "IMG":
+    case "AUDIO":
+    case "VIDEO":
+    case "SOURCE":
+      return element.getAttribute("src") ?? "";
+    case "TIME":
+      return element.getAttribute("datetime") ?? element.textContent ?? "";
+    case "DATA":
+    case "METER":
+      return element.getAttribute("value") ?? "";
+    default:
+      return element.textContent ?? "";
+  }
+}
+
+// An itemscope as a JSON-LD-like object: nested items become objects and
+// repeated properties arrays
+function readMicrodataItem(scope: Element): JobPostingData {
+  const item: JobPostingData = {
+    "@type": scope.getAttribute("itemtype")?.split("/").pop() ?? "",
+  };
+  const visit = (element: Element) => {
+    for (const child of element.children) {
+      const names = child.getAttribute("itemprop")?.split(/\s+/) ?? [];
+      const nested = child.hasAttribute("itemscope");
+      if (names.length > 0 && names[0]) {
+        const value = nested ? readMicrodataItem(child) : microdataValue(child);
+        for (const name of names) {
+          item[name] = name in item ? [item[name], value].flat() : value;
+        }
+      }
+      // A nested item's properties belong to it, not to this one
+      if (!nested) visit(child);
+    }
+  };
+  visit(scope);
+  return item;
+}
+
+/**
+ * The first schema.org JobPosting in the document, from its JSON-LD
+ * scripts or failing that its microdata. Malformed scripts are skipped.
+ */
+export function findJobPosting(doc: Document): JobPostingData | null {
+  for (const script of doc.querySelectorAll(
+    'script[type="application/ld+json"]'
+  )) {
+    try {
+      const found = findJobPostingIn(JSON.parse(script.textContent ?? ""));
+      if (found) return found;
+    } catch {
+      // Not valid JSON; try the next script
+    }
+  }
+
+  const scope = doc.querySelector(
+    '[itemscope][itemtype*="schema.org/JobPosting"]'
+  );
+  return scope ? readMicrodataItem(scope) : null;
+}
+
+const asText = (value: unknown): string =>
+  typeof value === "string" || typeof value === "number"
+    ? String(value).replace(/\s+/g, " ").trim()
+    : "";
+
+// A Thing's name, or the value itself when it is given as plain text
+const nameOf = (value: unknown): string =>
+  typeof value === "object" && value !== null
+    ? asText((value as JobPostingData).name)
+    : asText(value);
+
+const asList = (value: unknown): unknown[] =>
+  [value].flat().filter((item) => item !== undefined && item !== null);
+
+function postingLocation(posting: JobPostingData): string {
+  const places = asList(posting.jobLocation)
+    .map((location) => {
+      const address = (location as JobPostingData)?.address ?? location;
+      if (typeof address !== "object" || address === null) {
+        return asText(address);
+      }
+      const parts = address as JobPostingData;
+      return [parts.addressLocality, parts.addressRegion, parts.addressCountry]
+        .map(nameOf)
+        .filter(Boolean)
+        .join(", ");
+    })
+    .filter(Boolean);
+
+  if (asList(posting.jobLocationType).includes("TELECOMMUTE")) {
+    // Remote postings may still be limited to some countries
+    const regions = asList(posting.applicantLocationRequirements)
+      .map(nameOf)
+      .filter(Boolean);
+    return regions.length > 0 ? `Remote (${regions.join(", ")})` : "Remote";
+  }
+  return places.join("; ");
+}
+
+function postingSalary(posting: JobPostingData): string {
+  const salary = asList(posting.baseSalary ?? posting.estimatedSalary)[0];
+  if (typeof salary !== "object" || salary === null) return asText(salary);
+  const { currency, value } = salary as JobPostingData;
+  if (typeof value !== "object" || value === null) {
+    return [asText(currency), asText(value)].filter(Boolean).join(" ");
+  }
+  const {
+    value: amount,
+    minValue,
+    maxValue,
+    unitText,
+  } = value as JobPostingData;
+  const range =
+    [asText(minValue), asText(maxValue)].filter(Boolean).join(" - ") ||
+    asText(amount);
+  if (!range) return "";
+  const unit = asText(unitText).toLowerCase();
+  return [asText(currency), range, unit && `per ${unit}`]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function postingSkills(posting: JobPostingData): string[] {
+  const seen = new Set<string>();
+  return asList(posting.skills)
+    .flatMap((skill) =>
+      // Plain-text skills are usually one comma or bullet separated string
+      typeof skill === "string"
+        ? fragmentToText(skill).split(/[,;\n•]+/)
+        : [nameOf(skill)]
+    )
+    .map((skill) => skill.replace(/^[-*\s]+/, "").trim())
+    .filter((skill) => {
+      const key = skill.toLowerCase();
+      if (!skill || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Months of experience read onto the same levels the AI reports
+function postingExperience(posting: JobPostingData): string {
+  const label = (level: ReturnType<typeof normalizeExperienceLevel>) =>
+    EXPERIENCE_LEVELS.find((l) => l.value === level)?.label ?? "";
+
+  for (const requirement of asList(posting.experienceRequirements)) {
+    const months = Number(
+      (requirement as JobPostingData)?.monthsOfExperience ?? NaN
+    );
+    if (!Number.isNaN(months)) {
+      return months < 24 ? "Entry-level" : months < 60 ? "Mid-level" : "Senior";
+    }
+    const level = label(normalizeExperienceLevel(asText(requirement)));
+    if (level) return level;
+  }
+  return label(normalizeExperienceLevel(asText(posting.title)));
+}
+
+// The first sentences of the description, up to about SUMMARY_LENGTH
+function summarize(description: string): string {
+  const sentences = description.replace(/\s+/g, " ").match(/[^.!?]+[.!?]*/g);
+  let summary = "";
+  for (const sentence of sentences ?? []) {
+    if (summary && summary.length + sentence.length > SUMMARY_LENGTH) break;
+    summary += sentence;
+  }
+  return summary.trim();
+}
+
+/**
+ * Map a schema.org JobPosting onto the fields the AI would extract. Fields
+ * the markup doesn't have are left empty.
+ */
+export function jobPostingToExtracted(
+  posting: JobPostingData
+): ExtractedJobData {
+  return {
+    title: asText(posting.title) || asText(posting.name),
+    company: nameOf(asList(posting.hiringOrganization)[0]),
+    skills: postingSkills(posting),
+    experienceLevel: postingExperience(posting),
+    location: postingLocation(posting),
+    salaryRange: postingSalary(posting),
+    descriptionSummary: summarize(fragmentToText(asText(posting.description))),
+  };
+}
+
+export const filledFields = (extracted: ExtractedJobData): ExtractedField[] =>
+  (Object.keys(extracted) as ExtractedField[]).filter((field) => {
+    const value = extracted[field];
+    return Array.isArray(value) ? value.length > 0 : value.trim() !== "";
+  });
+
+// Whether structured data covers enough that asking the AI adds little
+export function hasEnoughCoverage(extracted: ExtractedJobData): boolean {
+  const filled = filledFields(extracted);
+  return (
+    REQUIRED_FIELDS.every((field) => filled.includes(field)) &&
+    filled.length >= MIN_FILLED_FIELDS
+  );
+}
@@ -0,0 +1,20 @@
+export type LocationType = "remote" | "hybrid" | "on-site";
+
+export const LOCATION_TYPES: { value: LocationType; label: string }[] = [
+  { value: "remote", label: "Remote" },
+  { value: "hybrid", label: "Hybrid" },
+  { value: "on-site", label: "On-site" },
+];
+
+// Bucket a free-form location ("Remote (US only)", "Berlin, hybrid") into a
+// work arrangement. Anything naming a place without remote/hybrid is on-site
+export function classifyLocation(
+  location: string | null | undefined
+): LocationType | null {
+  const value = location?.toLowerCase().trim() ?? "";
+  if (!value || value === "not specified") return null;
+  if (/\bhybrid\b/.test(value)) return "hybrid";
+  if (/\b(remote|anywhere|work from home|wfh|distributed)\b/.test(value))
+    return "remote";
+  return "on-site";
+}
@@ -0,0 +1,159 @@
+import type { Job, SkillProficiency, UserProfile } from "../types/index.js";
+import { getExperienceRank, normalizeExperienceLevel } from "./experience";
+import {
+  annualizeSalary,
+  getJobAnnualSalary,
+  type SalaryAssumptions,
+} from "./salary";
+import {
+  defaultSkillResolver,
+  skillKey,
+  type SkillResolver,
+} from "./skillTaxonomy";
+
+export interface JobMatch {
+  // Overall fit from 0 to 100
+  score: number;
+  // Canonical skill names, see skillTaxonomy
+  matchedSkills: string[];
+  missingSkills: string[];
+  breakdown: {
+    skills: number;
+    location: number;
+    experience: number;
+    rate: number;
+  };
+}
+
+// Maximum points each criterion contributes to the overall score
+const WEIGHTS = {
+  skills: 60,
+  location: 15,
+  experience: 15,
+  rate: 10,
+};
+
+const PROFICIENCY_WEIGHT: Record<SkillProficiency, number> = {
+  beginner: 0.4,
+  intermediate: 0.7,
+  advanced: 0.9,
+  expert: 1,
+};
+
+function scoreSkills(job: Job, profile: UserProfile, resolver: SkillResolver) {
+  const jobSkills = resolver.canonicalize(job.extracted?.skills ?? []);
+  const proficiencyBySkill = new Map(
+    profile.skills.map((s) => [
+      skillKey(resolver.resolve(s.name).name),
+      s.proficiency,
+    ])
+  );
+
+  const matchedSkills: string[] = [];
+  const missingSkills: string[] = [];
+  let earned = 0;
+
+  for (const skill of jobSkills) {
+    const proficiency = proficiencyBySkill.get(skillKey(skill));
+    if (proficiency) {
+      matchedSkills.push(skill);
+      earned += PROFICIENCY_WEIGHT[proficiency];
+    } else {
+      missingSkills.push(skill);
+    }
+  }
+
+  // A job that lists no skills can't be ruled in or out on skills
+  const ratio = jobSkills.length > 0 ? earned / jobSkills.length : 0.5;
+  return { points: ratio * WEIGHTS.skills, matchedSkills, missingSkills };
+}
+
+function scoreLocation(job: Job, profile: UserProfile): number {
+  if (profile.preferredLocations.length === 0) return WEIGHTS.location;
+
+  const location = job.extracted?.location?.toLowerCase() ?? "";
+  if (!location) return WEIGHTS.location / 2;
+
+  return profile.preferredLocations.some((preferred) =>
+    location.includes(preferred.toLowerCase())
+  )
+    ? WEIGHTS.location
+    : 0;
+}
+
+function scoreExperience(job: Job, profile: UserProfile): number {
+  const target = normalizeExperienceLevel(profile.targetExperienceLevel);
+  if (!target) return WEIGHTS.experience;
+
+  const level = normalizeExperienceLevel(job.extracted?.experienceLevel);
+  if (!level) return WEIGHTS.experience / 2;
+
+  // Full points for an exact match, half for one level away
+  const distance = Math.abs(
+    getExperienceRank(level) - getExperienceRank(target)
+  );
+  return distance === 0
+    ? WEIGHTS.experience
+    : distance === 1
+      ? WEIGHTS.experience / 2
+      : 0;
+}
+
+function scoreRate(
+  job: Job,
+  profile: UserProfile,
+  assumptions?: SalaryAssumptions
+): number {
+  if (profile.minimumRate == null) return WEIGHTS.rate;
+
+  const salary = getJobAnnualSalary(job, assumptions);
+  if (!salary) return WEIGHTS.rate / 2;
+
+  const minimum = annualizeSalary(
+    {
+      min: profile.minimumRate,
+      max: profile.minimumRate,
+      currency: "",
+      period: profile.minimumRatePeriod,
+    },
+    assumptions
+  ).min;
+  return salary.max >= minimum ? WEIGHTS.rate : 0;
+}
+
+/**
+ * Score how well a job fits the user's profile. Skills dominate the score;
+ * location, experience level and rate adjust it.
+ */
+export function scoreJob(
+  job: Job,
+  profile: UserProfile,
+  assumptions?: SalaryAssumptions,
+  resolver: SkillResolver = defaultSkillResolver
+): JobMatch {
+  const skills = scoreSkills(job, profile, resolver);
+  const breakdown = {
+    skills: skills.points,
+    location: scoreLocation(job, profile),
+    experience: scoreExperience(job, profile),
+    rate: scoreRate(job, profile, assumptions),
+  };
+
+  return {
+    score: Math.round(
+      breakdown.skills +
+        breakdown.location +
+        breakdown.experience +
+        breakdown.rate
+    ),
+    matchedSkills: skills.matchedSkills,
+    missingSkills: skills.missingSkills,
+    breakdown,
+  };
+}
+
+export function getMatchColor(score: number): string {
+  if (score >= 75) return "bg-green-100 text-green-800";
+  if (score >= 50) return "bg-yellow-100 text-yellow-800";
+  return "bg-gray-100 text-gray-700";
+}
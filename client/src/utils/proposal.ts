@@ -0,0 +1,100 @@
+import type { Job } from "../types/index.js";
+import type { JobMatch } from "./matchScore";
+
+export const DEFAULT_PROPOSAL_TEMPLATE = `Hi {{company}} team,
+
+I read your posting for the {{title}} role with interest. I have hands-on experience with {{matchedSkills}}, and I'd be glad to bring it to your project.
+
+{{snippets}}
+
+[A recent project that shows you can do this job]
+
+[How you would approach the first weeks]
+
+Looking forward to hearing from you.
+
+Best regards`;
+
+export const PROPOSAL_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: "title", description: "Job title" },
+  { key: "company", description: "Company" },
+  { key: "skills", description: "All skills the job lists" },
+  { key: "matchedSkills", description: "Listed skills in your profile" },
+  { key: "missingSkills", description: "Listed skills not in your profile" },
+  { key: "location", description: "Location" },
+  { key: "experienceLevel", description: "Experience level" },
+  { key: "salary", description: "Salary range" },
+  { key: "snippets", description: "Snippets whose rules fit the job" },
+];
+
+// Character limits of the proposal box on common platforms
+export const PROPOSAL_PLATFORMS: {
+  value: string;
+  label: string;
+  maxCharacters: number | null;
+}[] = [
+  { value: "none", label: "No limit", maxCharacters: null },
+  { value: "upwork", label: "Upwork", maxCharacters: 5000 },
+  { value: "freelancer", label: "Freelancer.com", maxCharacters: 1500 },
+  { value: "linkedin", label: "LinkedIn InMail", maxCharacters: 1900 },
+];
+
+// "React, TypeScript and Node.js"
+const joinList = (items: string[]) =>
+  items.length <= 1
+    ? (items[0] ?? "")
+    : `${items.slice(0, -1).join(", ")} and ${items.at(-1)}`;
+
+/**
+ * Placeholder values for a job. Matched and missing skills come from the
+ * match score, so they are empty without a profile; snippets are the texts
+ * of the library snippets that fire for the job.
+ */
+export function getProposalValues(
+  job: Job,
+  match: JobMatch | null,
+  snippets: string[] = []
+): Record<string, string> {
+  const extracted = job.extracted;
+  return {
+    title: extracted?.title ?? "",
+    company: extracted?.company ?? "",
+    skills: joinList(extracted?.skills ?? []),
+    matchedSkills: joinList(match?.matchedSkills ?? []),
+    missingSkills: joinList(match?.missingSkills ?? []),
+    location: extracted?.location ?? "",
+    experienceLevel: extracted?.experienceLevel ?? "",
+    salary: extracted?.salaryRange ?? "",
+    snippets: snippets.join("\n\n"),
+  };
+}
+
+// Replace {{placeholders}}; unknown ones are left for the user to see.
+// Placeholders with nothing to fill don't leave a gap of blank lines.
+export const fillProposalTemplate = (
+  template: string,
+  values: Record<string, string>
+): string =>
+  template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+      key in values ? values[key] : placeholder
+    )
+    .replace(/\n{3,}/g, "\n\n");
+
+export const countWords = (text: string): number =>
+  text.trim() ? text.trim().split(/\s+/).length : 0;
+
+// Markdown export: the job as a heading, then the proposal as written
+export function proposalToMarkdown(job: Job, text: string): string {
+  const title = job.extracted?.title || `Job #${job.id}`;
+  const company = job.extracted?.company;
+  return `# Proposal: ${title}${company ? ` at ${company}` : ""}\n\n${text.trim()}\n`;
+}
+
+export const proposalFilename = (job: Job, extension: string): string => {
+  const slug = (job.extracted?.title || `job-${job.id}`)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `proposal-${slug}.${extension}`;
+};
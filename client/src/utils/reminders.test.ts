@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { Job } from "../types/index.js";
+import { remindersToIcs } from "./reminders";
+
+const NOW = new Date("2026-10-19T08:30:15.123Z");
+
+const makeJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 7,
+  originalText: "",
+  extractedJson: "",
+  extracted: {
+    title: "React Developer",
+    company: "Acme",
+    skills: [],
+    experienceLevel: "",
+    location: "Remote",
+    salaryRange: "$80k",
+    descriptionSummary: "",
+  },
+  createdAt: "2026-10-01T12:00:00.000Z",
+  ...overrides,
+});
+
+// The content lines of the file, with folded lines joined back up
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("remindersToIcs", () => {
+  it("writes deadlines as all-day events", () => {
+    const lines = unfold(
+      remindersToIcs([makeJob({ deadline: "2026-12-31" })], NOW)
+    );
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        "UID:job-7-deadline@freelancefinderai",
+        "DTSTAMP:20261019T083015Z",
+        "DTSTART;VALUE=DATE:20261231",
+        "DTEND;VALUE=DATE:20270101",
+        "SUMMARY:Application deadline: React Developer at Acme",
+      ])
+    );
+  });
+
+  it("writes follow-ups as UTC timestamps", () => {
+    const lines = unfold(
+      remindersToIcs([makeJob({ followUpAt: "2026-10-20T09:00:00.000Z" })], NOW)
+    );
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        "DTSTART:20261020T090000Z",
+        "DURATION:PT30M",
+        "SUMMARY:Follow up: React Developer at Acme",
+      ])
+    );
+  });
+
+  it("skips dates it can't read", () => {
+    const ics = remindersToIcs(
+      [makeJob({ deadline: "next week", followUpAt: "soon" })],
+      NOW
+    );
+    expect(ics).not.toContain("BEGIN:VEVENT");
+  });
+
+  it("escapes separators, backslashes and newlines", () => {
+    const job = makeJob({ deadline: "2026-11-01" });
+    job.extracted = {
+      ...job.extracted!,
+      company: "Acme, Inc; \\ Co",
+      location: "Berlin\nor remote",
+    };
+    const lines = unfold(remindersToIcs([job], NOW));
+    expect(lines).toContain(
+      "SUMMARY:Application deadline: React Developer at Acme\\, Inc\\; \\\\ Co"
+    );
+    expect(lines).toContain("DESCRIPTION:Berlin\\nor remote • $80k");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const job = makeJob({ deadline: "2026-11-01" });
+    const title = Array(12).fill("Développeur").join(" ");
+    job.extracted = { ...job.extracted!, title };
+    const ics = remindersToIcs([job], NOW);
+
+    const encoder = new TextEncoder();
+    for (const line of ics.split("\r\n")) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(ics).toMatch(/\r\n /);
+    expect(ics).not.toContain("�");
+    expect(unfold(ics)).toContain(
+      `SUMMARY:Application deadline: ${title} at Acme`
+    );
+  });
+
+  it("ends every line with CRLF", () => {
+    const ics = remindersToIcs([], NOW);
+    expect(ics).toBe(
+      "BEGIN:VCALENDAR\r\nVERSION:2.0\r\n" +
+        "PRODID:-//FreelanceFinderAI//Job reminders//EN\r\n" +
+        "CALSCALE:GREGORIAN\r\nEND:VCALENDAR\r\n"
+    );
+  });
+});
@@ -0,0 +1,228 @@
+import type { Job } from "../types/index.js";
+import { getJobStatus } from "./applicationStatus";
+
+export type ReminderKind = "deadline" | "followUp";
+
+export interface Reminder {
+  jobId: number;
+  kind: ReminderKind;
+  // The end of a deadline's day, or the follow-up time
+  due: Date;
+  label: string;
+  // Changes when the date does, so a moved reminder notifies again
+  key: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead the upcoming panel looks, and how long overdue deadlines
+// stay in it
+export const UPCOMING_DAYS = 14;
+const OVERDUE_DEADLINE_DAYS = 7;
+
+// Deadlines notify this long before their day ends
+const DEADLINE_NOTICE_MS = 2 * DAY_MS;
+
+// Reminders that came due longer ago than this (e.g. while the app was
+// closed) aren't notified any more; the panel still shows them
+const MISSED_NOTICE_MS = DAY_MS;
+
+// Closed applications need no reminders
+const isClosed = (job: Job) =>
+  ["rejected", "archived"].includes(getJobStatus(job));
+
+export const jobLabel = (job: Job): string => {
+  const title = job.extracted?.title || `Job #${job.id}`;
+  return job.extracted?.company
+    ? `${title} at ${job.extracted.company}`
+    : title;
+};
+
+// "2026-11-01" as the end of that day in local time
+export const endOfLocalDay = (date: string): Date =>
+  new Date(`${date}T23:59:59.999`);
+
+/**
+ * Every deadline and follow-up of the given jobs, soonest first.
+ */
+export function getReminders(jobs: Job[]): Reminder[] {
+  const reminders: Reminder[] = [];
+  for (const job of jobs) {
+    if (job.deadline) {
+      reminders.push({
+        jobId: job.id,
+        kind: "deadline",
+        due: endOfLocalDay(job.deadline),
+        label: jobLabel(job),
+        key: `${job.id}:deadline:${job.deadline}`,
+      });
+    }
+    if (job.followUpAt) {
+      reminders.push({
+        jobId: job.id,
+        kind: "followUp",
+        due: new Date(job.followUpAt),
+        label: jobLabel(job),
+        key: `${job.id}:followUp:${job.followUpAt}`,
+      });
+    }
+  }
+  return reminders
+    .filter(({ due }) => !Number.isNaN(due.getTime()))
+    .sort((a, b) => a.due.getTime() - b.due.getTime());
+}
+
+// Reminders of open applications for the next UPCOMING_DAYS, plus
+// follow-ups still to do and recently missed deadlines
+export function getUpcomingReminders(
+  jobs: Job[],
+  now = new Date()
+): Reminder[] {
+  const time = now.getTime();
+  return getReminders(jobs.filter((job) => !isClosed(job))).filter(
+    ({ kind, due }) =>
+      due.getTime() <= time + UPCOMING_DAYS * DAY_MS &&
+      (kind === "followUp" ||
+        due.getTime() >= time - OVERDUE_DEADLINE_DAYS * DAY_MS)
+  );
+}
+
+/**
+ * Reminders to notify about now: follow-ups that came due and deadlines
+ * about to pass, leaving out those already notified.
+ */
+export function getDueReminders(
+  jobs: Job[],
+  notified: Set<string>,
+  now = new Date()
+): Reminder[] {
+  const time = now.getTime();
+  return getReminders(jobs.filter((job) => !isClosed(job))).filter(
+    ({ kind, due, key }) => {
+      if (notified.has(key)) return false;
+      const noticeAt =
+        kind === "deadline"
+          ? due.getTime() - DEADLINE_NOTICE_MS
+          : due.getTime();
+      return time >= noticeAt && time <= due.getTime() + MISSED_NOTICE_MS;
+    }
+  );
+}
+
+// "in 3 days", "tomorrow", "2 hours ago"
+export function formatDueIn(due: Date, now = new Date()): string {
+  const diff = due.getTime() - now.getTime();
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+  if (Math.abs(diff) < DAY_MS) {
+    const hours = Math.round(diff / (60 * 60 * 1000));
+    return hours === 0
+      ? format.format(Math.round(diff / 60000), "minute")
+      : format.format(hours, "hour");
+  }
+  return format.format(Math.round(diff / DAY_MS), "day");
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export function toDateTimeInput(iso: string | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+export const fromDateTimeInput = (value: string): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
+
+// iCalendar text values escape backslashes, separators and newlines
+const escapeIcsText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets are folded onto continuation lines that
+// start with a space
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// 20261019T120000Z
+const icsTimestamp = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+// "2026-11-01" → 20261101, and the day after for an all-day DTEND
+const icsDate = (date: string, addDays = 0) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const value = new Date(Date.UTC(year, month - 1, day + addDays));
+  return value.toISOString().slice(0, 10).replace(/-/g, "");
+};
+
+/**
+ * An iCalendar file with every deadline as an all-day event and every
+ * follow-up as a half-hour event, to import into a calendar app.
+ */
+export function remindersToIcs(jobs: Job[], now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//FreelanceFinderAI//Job reminders//EN",
+    "CALSCALE:GREGORIAN",
+  ];
+  for (const job of jobs) {
+    const label = jobLabel(job);
+    const description = escapeIcsText(
+      [job.extracted?.location, job.extracted?.salaryRange]
+        .filter(Boolean)
+        .join(" • ")
+    );
+    if (job.deadline && /^\d{4}-\d{2}-\d{2}$/.test(job.deadline)) {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:job-${job.id}-deadline@freelancefinderai`,
+        `DTSTAMP:${icsTimestamp(now)}`,
+        `DTSTART;VALUE=DATE:${icsDate(job.deadline)}`,
+        `DTEND;VALUE=DATE:${icsDate(job.deadline, 1)}`,
+        `SUMMARY:${escapeIcsText(`Application deadline: ${label}`)}`,
+        ...(description ? [`DESCRIPTION:${description}`] : []),
+        "END:VEVENT"
+      );
+    }
+    const followUp = job.followUpAt ? new Date(job.followUpAt) : null;
+    if (followUp && !Number.isNaN(followUp.getTime())) {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:job-${job.id}-follow-up@freelancefinderai`,
+        `DTSTAMP:${icsTimestamp(now)}`,
+        `DTSTART:${icsTimestamp(followUp)}`,
+        "DURATION:PT30M",
+        `SUMMARY:${escapeIcsText(`Follow up: ${label}`)}`,
+        ...(description ? [`DESCRIPTION:${description}`] : []),
+        "END:VEVENT"
+      );
+    }
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
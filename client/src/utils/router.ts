@@ -0,0 +1,36 @@
+import { useSyncExternalStore } from "react";
+
+// history.pushState doesn't fire popstate, so navigate() announces itself
+const NAVIGATE_EVENT = "app:navigate";
+
+// replace swaps the current history entry instead of adding one
+export function navigate(path: string, { replace = false } = {}): void {
+  if (replace) {
+    window.history.replaceState(null, "", path);
+  } else {
+    window.history.pushState(null, "", path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+};
+
+// Current pathname, re-rendering on navigation and back/forward
+export function usePathname(): string {
+  return useSyncExternalStore(subscribe, () => window.location.pathname);
+}
+
+export const jobPath = (id: number) => `/jobs/${id}`;
+
+// Job id of a /jobs/:id path (local-only jobs have negative ids)
+export function matchJobPath(pathname: string): number | null {
+  const match = pathname.match(/^\/jobs\/(-?\d+)\/?$/);
+  return match ? Number(match[1]) : null;
+}
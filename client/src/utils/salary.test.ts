@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { annualizeSalary, parseSalary } from "./salary";
+
+describe("parseSalary", () => {
+  it("parses ranges with a currency symbol and a period", () => {
+    expect(parseSalary("$80k–$100k/yr")).toEqual({
+      min: 80_000,
+      max: 100_000,
+      currency: "USD",
+      period: "year",
+    });
+    expect(parseSalary("€45/hour")).toEqual({
+      min: 45,
+      max: 45,
+      currency: "EUR",
+      period: "hour",
+    });
+    expect(parseSalary("£500 per day")).toEqual({
+      min: 500,
+      max: 500,
+      currency: "GBP",
+      period: "day",
+    });
+  });
+
+  it("accepts currency codes before or after the amount", () => {
+    expect(parseSalary("USD 120000 per year")).toMatchObject({
+      min: 120_000,
+      max: 120_000,
+      currency: "USD",
+      period: "year",
+    });
+    expect(parseSalary("4.500 - 5.500 EUR monthly")).toMatchObject({
+      min: 4_500,
+      max: 5_500,
+      currency: "EUR",
+      period: "month",
+    });
+  });
+
+  it("carries a k suffix back to the lower bound", () => {
+    expect(parseSalary("80-100k")).toMatchObject({
+      min: 80_000,
+      max: 100_000,
+      period: "year",
+    });
+  });
+
+  it("prefers longer currency prefixes", () => {
+    expect(parseSalary("CA$60/hr")).toMatchObject({
+      min: 60,
+      currency: "CAD",
+    });
+  });
+
+  it("skips a contract length given as a range", () => {
+    expect(parseSalary("2-3 months contract, $40/h")).toEqual({
+      min: 40,
+      max: 40,
+      currency: "USD",
+      period: "hour",
+    });
+  });
+
+  it("doesn't take a duration for the pay period", () => {
+    expect(parseSalary("6 month contract, $6,000")).toMatchObject({
+      min: 6_000,
+      period: "month",
+    });
+    expect(parseSalary("$90k, 12 months")).toMatchObject({
+      min: 90_000,
+      period: "year",
+    });
+  });
+
+  it("ignores numbers without a currency or suffix", () => {
+    expect(parseSalary("Competitive, 2 openings")).toBeNull();
+    expect(parseSalary("40 hours a week")).toBeNull();
+    expect(parseSalary("")).toBeNull();
+    expect(parseSalary(undefined)).toBeNull();
+  });
+});
+
+describe("annualizeSalary", () => {
+  it("multiplies by the working time assumptions", () => {
+    const hourly = parseSalary("$50/hr")!;
+    expect(
+      annualizeSalary(hourly, {
+        hoursPerDay: 8,
+        daysPerWeek: 5,
+        weeksPerYear: 48,
+      })
+    ).toMatchObject({ min: 96_000, max: 96_000, period: "year" });
+  });
+});
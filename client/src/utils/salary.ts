@@ -0,0 +1,273 @@
+import type { Job, SalaryPeriod } from "../types/index.js";
+
+export interface ParsedSalary {
+  min: number;
+  max: number;
+  currency: string;
+  period: SalaryPeriod;
+}
+
+export interface SalaryAssumptions {
+  hoursPerDay: number;
+  daysPerWeek: number;
+  weeksPerYear: number;
+}
+
+export const DEFAULT_SALARY_ASSUMPTIONS: SalaryAssumptions = {
+  hoursPerDay: 8,
+  daysPerWeek: 5,
+  weeksPerYear: 52,
+};
+
+const CURRENCY_SYMBOLS: [string, string][] = [
+  // Multi-character prefixes first so "CA$" isn't read as "$"
+  ["CA$", "CAD"],
+  ["C$", "CAD"],
+  ["A$", "AUD"],
+  ["AU$", "AUD"],
+  ["NZ$", "NZD"],
+  ["$", "USD"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+];
+
+const CURRENCY_CODES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CHF",
+  "JPY",
+  "INR",
+  "SEK",
+  "NOK",
+  "DKK",
+  "PLN",
+];
+
+const PERIOD_PATTERNS: [RegExp, SalaryPeriod][] = [
+  [/\b(hour|hourly|hr|hrs|ph)\b|\/\s*h\b/i, "hour"],
+  [/\b(day|daily|pd)\b/i, "day"],
+  [/\b(week|weekly|wk|pw)\b/i, "week"],
+  [/\b(month|monthly|mo|pcm)\b/i, "month"],
+  [/\b(year|yearly|yr|annual|annually|annum|pa|p\.a)\b/i, "year"],
+];
+
+const AMOUNT_PATTERN = /(\d+(?:[.,]\d+)*)\s*(k|m)?\b/gi;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// A currency symbol or code, e.g. the "$" of "$40" or the "EUR" of "45 EUR"
+const CURRENCY_MARKER = `(?:${CURRENCY_SYMBOLS.map(([symbol]) =>
+  escapeRegExp(symbol)
+).join("|")}|\\b(?:${CURRENCY_CODES.join("|")})\\b)`;
+const MARKER_BEFORE = new RegExp(`${CURRENCY_MARKER}\\s*$`, "i");
+const MARKER_AFTER = new RegExp(`^\\s*${CURRENCY_MARKER}`, "i");
+
+// What may stand between the two ends of a range: "80k - $100k"
+const RANGE_JOINER = new RegExp(
+  `^\\s*(?:-|–|—|to)\\s*${CURRENCY_MARKER}?\\s*$`,
+  "i"
+);
+
+// "2-3 months" is how long the job runs, not what it pays
+const DURATION_AFTER = /^\s*(?:days?|weeks?|months?|years?)\b/i;
+
+interface AmountMatch {
+  raw: string;
+  suffix: string | undefined;
+  start: number;
+  end: number;
+  // Next to a currency marker or written with a k/m suffix
+  marked: boolean;
+}
+
+function findAmounts(text: string): AmountMatch[] {
+  return [...text.matchAll(AMOUNT_PATTERN)]
+    .map((match) => {
+      const start = match.index;
+      const end = start + match[0].length;
+      return {
+        raw: match[1],
+        suffix: match[2],
+        start,
+        end,
+        marked:
+          match[2] !== undefined ||
+          MARKER_BEFORE.test(text.slice(0, start)) ||
+          MARKER_AFTER.test(text.slice(end)),
+      };
+    })
+    .filter(({ raw, suffix }) => parseAmount(raw, suffix) > 0);
+}
+
+// Amounts paired up into ranges; an amount on its own is a range of one
+function groupRanges(text: string, amounts: AmountMatch[]): AmountMatch[][] {
+  const ranges: AmountMatch[][] = [];
+  for (let i = 0; i < amounts.length; i++) {
+    const next = amounts[i + 1];
+    if (next && RANGE_JOINER.test(text.slice(amounts[i].end, next.start))) {
+      ranges.push([amounts[i], next]);
+      i++;
+    } else {
+      ranges.push([amounts[i]]);
+    }
+  }
+  return ranges;
+}
+
+const detectPeriod = (text: string): SalaryPeriod | undefined =>
+  PERIOD_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+
+function detectCurrency(text: string): string {
+  const upper = text.toUpperCase();
+  const code = CURRENCY_CODES.find((c) => new RegExp(`\\b${c}\\b`).test(upper));
+  if (code) return code;
+
+  const symbol = CURRENCY_SYMBOLS.find(([s]) => text.includes(s));
+  return symbol ? symbol[1] : "";
+}
+
+function parseAmount(raw: string, suffix: string | undefined): number {
+  // Treat "," and "." followed by exactly three digits as thousands separators
+  const normalized = raw
+    .replace(/[.,](?=\d{3}(?:\D|$))/g, "")
+    .replace(",", ".");
+  const value = parseFloat(normalized);
+  const multiplier =
+    suffix?.toLowerCase() === "k"
+      ? 1_000
+      : suffix?.toLowerCase() === "m"
+        ? 1_000_000
+        : 1;
+  return value * multiplier;
+}
+
+// Without an explicit period, guess from the magnitude of the figures
+function guessPeriod(max: number): SalaryPeriod {
+  if (max < 1_000) return "hour";
+  if (max < 20_000) return "month";
+  return "year";
+}
+
+/**
+ * Parse a free-form salary string such as "$80k–$100k/yr", "€45/hour" or
+ * "£500 per day" into a typed range. Only amounts with a currency or a k/m
+ * suffix count, and ranges followed by a duration ("2-3 months") are
+ * skipped. Returns null if no amount is found.
+ */
+export function parseSalary(
+  salaryRange: string | null | undefined
+): ParsedSalary | null {
+  if (!salaryRange) return null;
+
+  const ranges = groupRanges(salaryRange, findAmounts(salaryRange));
+  // Where each range's duration ends, for ranges that are durations
+  const durationEnd = (range: AmountMatch[]) => {
+    const end = range[range.length - 1].end;
+    const duration = salaryRange.slice(end).match(DURATION_AFTER);
+    return duration ? end + duration[0].length : null;
+  };
+  const range = ranges.find(
+    (candidate) =>
+      candidate.some(({ marked }) => marked) && durationEnd(candidate) === null
+  );
+  if (!range) return null;
+
+  const [low, high = low] = range;
+  // "80-100k" means 80k-100k: carry a trailing suffix back to the lower bound
+  const lowSuffix =
+    low.suffix ?? (parseFloat(low.raw) < 1_000 ? high.suffix : undefined);
+
+  let min = parseAmount(low.raw, lowSuffix);
+  let max = parseAmount(high.raw, high.suffix);
+  if (min > max) [min, max] = [max, min];
+
+  // The period usually follows the amount ("$40/h"); otherwise look through
+  // the whole string, leaving out durations so "6 months" isn't "per month"
+  let withoutDurations = salaryRange;
+  for (const candidate of ranges) {
+    const end = durationEnd(candidate);
+    if (end === null) continue;
+    const start = candidate[0].start;
+    withoutDurations =
+      withoutDurations.slice(0, start) +
+      " ".repeat(end - start) +
+      withoutDurations.slice(end);
+  }
+  const period =
+    detectPeriod(salaryRange.slice(high.end).split(/[,;(]/)[0]) ??
+    detectPeriod(withoutDurations) ??
+    guessPeriod(max);
+
+  return { min, max, currency: detectCurrency(salaryRange), period };
+}
+
+export function getPeriodsPerYear(
+  period: SalaryPeriod,
+  assumptions: SalaryAssumptions = DEFAULT_SALARY_ASSUMPTIONS
+): number {
+  switch (period) {
+    case "hour":
+      return (
+        assumptions.hoursPerDay *
+        assumptions.daysPerWeek *
+        assumptions.weeksPerYear
+      );
+    case "day":
+      return assumptions.daysPerWeek * assumptions.weeksPerYear;
+    case "week":
+      return assumptions.weeksPerYear;
+    case "month":
+      return 12;
+    case "year":
+      return 1;
+  }
+}
+
+// Convert a parsed salary into an annual range using the given assumptions
+export function annualizeSalary(
+  salary: ParsedSalary,
+  assumptions: SalaryAssumptions = DEFAULT_SALARY_ASSUMPTIONS
+): ParsedSalary {
+  const factor = getPeriodsPerYear(salary.period, assumptions);
+  return {
+    ...salary,
+    min: Math.round(salary.min * factor),
+    max: Math.round(salary.max * factor),
+    period: "year",
+  };
+}
+
+export function formatSalaryAmount(amount: number, currency: string): string {
+  if (!currency) return Math.round(amount).toLocaleString();
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+}
+
+export function formatAnnualSalary(salary: ParsedSalary): string {
+  const min = formatSalaryAmount(salary.min, salary.currency);
+  const max = formatSalaryAmount(salary.max, salary.currency);
+  return salary.min === salary.max ? `${min}/yr` : `${min}–${max}/yr`;
+}
+
+// Annual salary range for a job, or null when its salary can't be parsed
+export function getJobAnnualSalary(
+  job: Job,
+  assumptions: SalaryAssumptions = DEFAULT_SALARY_ASSUMPTIONS
+): ParsedSalary | null {
+  const parsed = parseSalary(job.extracted?.salaryRange);
+  return parsed ? annualizeSalary(parsed, assumptions) : null;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { parseSearchQuery } from "./search";
+import { defaultSkillResolver } from "./skillTaxonomy";
+
+describe("parseSearchQuery", () => {
+  it("reads bare words as prefix terms over every field", () => {
+    expect(parseSearchQuery("Remote agency")).toEqual([
+      {
+        field: null,
+        tokens: ["remote"],
+        prefix: true,
+        negated: false,
+        skill: null,
+      },
+      {
+        field: null,
+        tokens: ["agency"],
+        prefix: true,
+        negated: false,
+        skill: null,
+      },
+    ]);
+  });
+
+  it("scopes terms with a field prefix, including aliases", () => {
+    const [title, company, summary] = parseSearchQuery(
+      "title:senior Company:Acme description:startup"
+    );
+    expect(title).toMatchObject({ field: "title", tokens: ["senior"] });
+    expect(company).toMatchObject({ field: "company", tokens: ["acme"] });
+    expect(summary).toMatchObject({ field: "summary", tokens: ["startup"] });
+  });
+
+  it("treats an unknown field prefix as text", () => {
+    expect(parseSearchQuery("foo:bar")).toEqual([
+      {
+        field: null,
+        tokens: ["foo", "bar"],
+        prefix: false,
+        negated: false,
+        skill: null,
+      },
+    ]);
+  });
+
+  it("negates terms starting with a dash", () => {
+    const [php, title] = parseSearchQuery("-php -title:junior");
+    expect(php).toMatchObject({ field: null, tokens: ["php"], negated: true });
+    expect(title).toMatchObject({
+      field: "title",
+      tokens: ["junior"],
+      negated: true,
+    });
+  });
+
+  it("keeps quoted phrases together and matches them exactly", () => {
+    const [phrase, company, unclosed] = parseSearchQuery(
+      '"remote first" company:"Big Co" "full stack'
+    );
+    expect(phrase).toMatchObject({
+      field: null,
+      tokens: ["remote", "first"],
+      prefix: false,
+    });
+    expect(company).toMatchObject({
+      field: "company",
+      tokens: ["big", "co"],
+      prefix: false,
+    });
+    expect(unclosed).toMatchObject({ tokens: ["full", "stack"] });
+
+    const [word] = parseSearchQuery('"react"');
+    expect(word.prefix).toBe(false);
+  });
+
+  it("resolves known skills to their canonical name", () => {
+    const [skill, plain] = parseSearchQuery(
+      "skills:ReactJS design",
+      defaultSkillResolver
+    );
+    expect(skill).toMatchObject({
+      field: "skill",
+      tokens: ["reactjs"],
+      prefix: false,
+      skill: "React",
+    });
+    expect(plain).toMatchObject({ prefix: true, skill: null });
+  });
+
+  it("skips terms without any words", () => {
+    expect(parseSearchQuery("")).toEqual([]);
+    expect(parseSearchQuery('  - "" !! ')).toEqual([]);
+  });
+});
@@ -0,0 +1,398 @@
+import type { Job } from "../types/index.js";
+import { skillKey, type SkillResolver } from "./skillTaxonomy";
+
+export type SearchField = "title" | "company" | "skill" | "summary" | "text";
+
+const SEARCH_FIELDS: SearchField[] = [
+  "title",
+  "company",
+  "skill",
+  "summary",
+  "text",
+];
+
+// How much a hit in each field counts towards relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  skill: 4,
+  company: 3,
+  summary: 2,
+  text: 1,
+};
+
+// Names accepted before ":" in a query, e.g. skill:react
+const FIELD_ALIASES: Record<string, SearchField> = {
+  title: "title",
+  company: "company",
+  skill: "skill",
+  skills: "skill",
+  summary: "summary",
+  description: "summary",
+  text: "text",
+};
+
+// A prefix-only hit counts for less than the whole word
+const PREFIX_MATCH_FACTOR = 0.5;
+const PHRASE_BONUS = 1.5;
+
+// Index tokens for canonical skills carry a marker the tokenizer never
+// produces, so they can't collide with words from the text
+const SKILL_TOKEN_MARKER = "§";
+
+export interface SearchTerm {
+  // null searches every field
+  field: SearchField | null;
+  // More than one token means the words must appear next to each other
+  tokens: string[];
+  // Unquoted single words also match longer words they start
+  prefix: boolean;
+  negated: boolean;
+  // Canonical skill name when the term is a known skill ("js", "React.js")
+  skill: string | null;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}+#]*/gu) ?? [];
+}
+
+/**
+ * Parse a search box query: bare words, "quoted phrases", field:scoped
+ * terms and -negated terms, all combined with AND.
+ */
+export function parseSearchQuery(
+  query: string,
+  resolver?: SkillResolver
+): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const pattern = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+  for (const match of query.matchAll(pattern)) {
+    const [whole, negation, fieldName, quoted, bare] = match;
+    const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : null;
+    // "foo:bar" with an unknown field is just text
+    const value =
+      fieldName && !field ? whole.replace(/^-/, "") : (quoted ?? bare ?? "");
+    const tokens = tokenize(value);
+    if (tokens.length === 0) continue;
+
+    const resolved = resolver?.resolve(value);
+    terms.push({
+      field: field ?? null,
+      tokens,
+      prefix:
+        quoted === undefined && tokens.length === 1 && !resolved?.category,
+      negated: !!negation,
+      skill: resolved?.category ? resolved.name : null,
+    });
+  }
+
+  return terms;
+}
+
+// Token positions of one job, per field
+type FieldPositions = Partial<Record<SearchField, number[]>>;
+
+interface IndexedDocument {
+  job: Job;
+  fields: Record<SearchField, string[]>;
+}
+
+export interface SearchIndex {
+  resolver: SkillResolver;
+  documents: Map<number, IndexedDocument>;
+  // token -> job id -> positions in each field
+  postings: Map<string, Map<number, FieldPositions>>;
+  // Sorted tokens for prefix lookups; null when stale
+  sortedTokens: string[] | null;
+  // Bumped on every change so cached results can be dropped
+  version: number;
+  // The job list the index was last synced with
+  lastJobs: Job[] | null;
+}
+
+export function createSearchIndex(resolver: SkillResolver): SearchIndex {
+  return {
+    resolver,
+    documents: new Map(),
+    postings: new Map(),
+    sortedTokens: null,
+    version: 0,
+    lastJobs: null,
+  };
+}
+
+function tokenizeJob(
+  job: Job,
+  resolver: SkillResolver
+): Record<SearchField, string[]> {
+  const skills = job.extracted?.skills ?? [];
+  return {
+    title: tokenize(job.extracted?.title ?? ""),
+    company: tokenize(job.extracted?.company ?? ""),
+    skill: [
+      ...skills.flatMap(tokenize),
+      ...resolver
+        .canonicalize(skills)
+        .map((name) => SKILL_TOKEN_MARKER + skillKey(name)),
+    ],
+    summary: tokenize(job.extracted?.descriptionSummary ?? ""),
+    text: tokenize(job.originalText),
+  };
+}
+
+function addDocument(index: SearchIndex, job: Job) {
+  const fields = tokenizeJob(job, index.resolver);
+  index.documents.set(job.id, { job, fields });
+
+  for (const field of SEARCH_FIELDS) {
+    fields[field].forEach((token, position) => {
+      let byJob = index.postings.get(token);
+      if (!byJob) {
+        byJob = new Map();
+        index.postings.set(token, byJob);
+        index.sortedTokens = null;
+      }
+      let positions = byJob.get(job.id);
+      if (!positions) {
+        positions = {};
+        byJob.set(job.id, positions);
+      }
+      (positions[field] ??= []).push(position);
+    });
+  }
+}
+
+function removeDocument(index: SearchIndex, id: number) {
+  const document = index.documents.get(id);
+  if (!document) return;
+
+  for (const field of SEARCH_FIELDS) {
+    for (const token of document.fields[field]) {
+      const byJob = index.postings.get(token);
+      byJob?.delete(id);
+      if (byJob?.size === 0) {
+        index.postings.delete(token);
+        index.sortedTokens = null;
+      }
+    }
+  }
+  index.documents.delete(id);
+}
+
+/**
+ * Bring the index in line with the job list, re-indexing only jobs that
+ * were added, replaced or removed since the last call.
+ */
+export function updateSearchIndex(index: SearchIndex, jobs: Job[]): void {
+  if (index.lastJobs === jobs) return;
+  index.lastJobs = jobs;
+
+  let changed = false;
+  const current = new Map(jobs.map((job) => [job.id, job]));
+  for (const id of index.documents.keys()) {
+    if (!current.has(id)) {
+      removeDocument(index, id);
+      changed = true;
+    }
+  }
+  for (const job of jobs) {
+    const existing = index.documents.get(job.id);
+    if (existing?.job === job) continue;
+    if (existing) removeDocument(index, job.id);
+    addDocument(index, job);
+    changed = true;
+  }
+
+  if (changed) index.version++;
+}
+
+// Tokens that start with the given prefix, via binary search
+function tokensWithPrefix(index: SearchIndex, prefix: string): string[] {
+  index.sortedTokens ??= [...index.postings.keys()].sort();
+  const tokens = index.sortedTokens;
+
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (tokens[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < tokens.length && tokens[i].startsWith(prefix); i++) {
+    matches.push(tokens[i]);
+  }
+  return matches;
+}
+
+const inverseDocumentFrequency = (index: SearchIndex, token: string) =>
+  Math.log(1 + index.documents.size / (index.postings.get(token)?.size ?? 1));
+
+const fieldsFor = (term: SearchTerm) =>
+  term.field ? [term.field] : SEARCH_FIELDS;
+
+// Add the relevance of one token's hits in the given fields to scores
+function addTokenHits(
+  index: SearchIndex,
+  scores: Map<number, number>,
+  token: string,
+  fields: SearchField[],
+  factor: number
+) {
+  const idf = inverseDocumentFrequency(index, token);
+  for (const [id, positions] of index.postings.get(token) ?? []) {
+    for (const field of fields) {
+      const count = positions[field]?.length;
+      if (!count) continue;
+      scores.set(
+        id,
+        (scores.get(id) ?? 0) +
+          FIELD_WEIGHTS[field] * factor * idf * (1 + Math.log(count))
+      );
+    }
+  }
+}
+
+// Relevance of each job containing the term's words next to each other
+function matchPhrase(
+  index: SearchIndex,
+  tokens: string[],
+  fields: SearchField[]
+): Map<number, number> {
+  const scores = new Map<number, number>();
+  const [first, ...rest] = tokens;
+  const idf = tokens.reduce(
+    (sum, token) => sum + inverseDocumentFrequency(index, token),
+    0
+  );
+
+  for (const [id, positions] of index.postings.get(first) ?? []) {
+    for (const field of fields) {
+      const count = (positions[field] ?? []).filter((start) =>
+        rest.every((token, offset) =>
+          index.postings
+            .get(token)
+            ?.get(id)
+            ?.[field]?.includes(start + offset + 1)
+        )
+      ).length;
+      if (count === 0) continue;
+      scores.set(
+        id,
+        (scores.get(id) ?? 0) +
+          FIELD_WEIGHTS[field] * PHRASE_BONUS * idf * (1 + Math.log(count))
+      );
+    }
+  }
+  return scores;
+}
+
+// Relevance of each job matching a single term
+function matchTerm(index: SearchIndex, term: SearchTerm): Map<number, number> {
+  let fields = fieldsFor(term);
+  let skillToken: string | null = null;
+  // Known skills match skill lists by canonical name only, so "java"
+  // doesn't pick up "JavaScript"
+  if (term.skill && fields.includes("skill")) {
+    skillToken = SKILL_TOKEN_MARKER + skillKey(term.skill);
+    fields = fields.filter((field) => field !== "skill");
+  }
+
+  let scores: Map<number, number>;
+  if (term.tokens.length > 1) {
+    scores = matchPhrase(index, term.tokens, fields);
+  } else {
+    const [word] = term.tokens;
+    scores = new Map();
+    addTokenHits(index, scores, word, fields, 1);
+    if (term.prefix) {
+      for (const token of tokensWithPrefix(index, word)) {
+        if (token !== word) {
+          addTokenHits(index, scores, token, fields, PREFIX_MATCH_FACTOR);
+        }
+      }
+    }
+  }
+
+  if (skillToken) addTokenHits(index, scores, skillToken, ["skill"], 1);
+  return scores;
+}
+
+/**
+ * Relevance score of every job matching all terms, keyed by job id. Jobs
+ * matching a negated term are left out.
+ */
+export function searchJobs(
+  index: SearchIndex,
+  terms: SearchTerm[]
+): Map<number, number> {
+  const positive = terms.filter((term) => !term.negated);
+  const negative = terms.filter((term) => term.negated);
+
+  let scores: Map<number, number>;
+  if (positive.length === 0) {
+    scores = new Map([...index.documents.keys()].map((id) => [id, 0]));
+  } else {
+    scores = matchTerm(index, positive[0]);
+    for (const term of positive.slice(1)) {
+      const termScores = matchTerm(index, term);
+      for (const [id, score] of scores) {
+        const termScore = termScores.get(id);
+        if (termScore === undefined) scores.delete(id);
+        else scores.set(id, score + termScore);
+      }
+    }
+  }
+
+  for (const term of negative) {
+    for (const id of matchTerm(index, term).keys()) scores.delete(id);
+  }
+  return scores;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into plain and matching segments for the terms that apply to
+ * the given field.
+ */
+export function splitHighlights(
+  text: string,
+  terms: SearchTerm[],
+  field: SearchField
+): HighlightSegment[] {
+  const applicable = terms.filter(
+    (term) => !term.negated && (!term.field || term.field === field)
+  );
+  if (applicable.length === 0 || !text) return [{ text, match: false }];
+
+  const isMatch = (word: string) =>
+    applicable.some((term) =>
+      term.tokens.some(
+        (token) =>
+          word === token ||
+          (term.prefix && word.startsWith(token)) ||
+          (term.skill !== null && skillKey(word) === skillKey(term.skill))
+      )
+    );
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}+#]*/gu)) {
+    if (!isMatch(match[0].toLowerCase())) continue;
+    const start = match.index;
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), match: false });
+    }
+    segments.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+  return segments;
+}
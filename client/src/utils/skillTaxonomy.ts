@@ -0,0 +1,249 @@
+export type SkillCategory =
+  "language" | "framework" | "cloud" | "database" | "tool" | "soft skill";
+
+export interface SkillDefinition {
+  canonical: string;
+  category: SkillCategory;
+  aliases: string[];
+}
+
+export interface SkillAlias {
+  alias: string;
+  canonical: string;
+  category?: SkillCategory;
+}
+
+export interface ResolvedSkill {
+  name: string;
+  category: SkillCategory | null;
+}
+
+export const SKILL_CATEGORIES: {
+  value: SkillCategory;
+  label: string;
+  color: string;
+}[] = [
+  { value: "language", label: "Language", color: "bg-blue-100 text-blue-800" },
+  {
+    value: "framework",
+    label: "Framework",
+    color: "bg-purple-100 text-purple-800",
+  },
+  { value: "cloud", label: "Cloud", color: "bg-orange-100 text-orange-800" },
+  { value: "database", label: "Database", color: "bg-teal-100 text-teal-800" },
+  { value: "tool", label: "Tool", color: "bg-slate-100 text-slate-800" },
+  {
+    value: "soft skill",
+    label: "Soft skill",
+    color: "bg-pink-100 text-pink-800",
+  },
+];
+
+export const SKILL_TAXONOMY: SkillDefinition[] = [
+  // Languages
+  {
+    canonical: "JavaScript",
+    category: "language",
+    aliases: ["JS", "ECMAScript", "ES6", "ES2015", "Vanilla JS"],
+  },
+  { canonical: "TypeScript", category: "language", aliases: ["TS"] },
+  { canonical: "Python", category: "language", aliases: ["Python3", "Py"] },
+  { canonical: "Java", category: "language", aliases: ["Java SE", "Java EE"] },
+  { canonical: "C#", category: "language", aliases: ["CSharp", "C Sharp"] },
+  { canonical: "C++", category: "language", aliases: ["CPP"] },
+  { canonical: "Go", category: "language", aliases: ["Golang"] },
+  { canonical: "Rust", category: "language", aliases: [] },
+  { canonical: "Ruby", category: "language", aliases: [] },
+  { canonical: "PHP", category: "language", aliases: [] },
+  { canonical: "Kotlin", category: "language", aliases: [] },
+  { canonical: "Swift", category: "language", aliases: [] },
+  { canonical: "SQL", category: "language", aliases: ["T-SQL", "PL/SQL"] },
+  { canonical: "HTML", category: "language", aliases: ["HTML5"] },
+  { canonical: "CSS", category: "language", aliases: ["CSS3"] },
+
+  // Frameworks and libraries
+  {
+    canonical: "React",
+    category: "framework",
+    aliases: ["React.js", "ReactJS"],
+  },
+  {
+    canonical: "React Native",
+    category: "framework",
+    aliases: ["RN", "ReactNative"],
+  },
+  { canonical: "Next.js", category: "framework", aliases: ["Next", "NextJS"] },
+  { canonical: "Vue", category: "framework", aliases: ["Vue.js", "VueJS"] },
+  {
+    canonical: "Angular",
+    category: "framework",
+    aliases: ["AngularJS", "Angular 2+"],
+  },
+  { canonical: "Svelte", category: "framework", aliases: ["SvelteKit"] },
+  { canonical: "Node.js", category: "framework", aliases: ["Node", "NodeJS"] },
+  { canonical: "Express", category: "framework", aliases: ["Express.js"] },
+  {
+    canonical: ".NET",
+    category: "framework",
+    aliases: ["dotnet", ".NET Core", "ASP.NET", "ASP.NET Core"],
+  },
+  { canonical: "Django", category: "framework", aliases: [] },
+  { canonical: "Flask", category: "framework", aliases: [] },
+  { canonical: "FastAPI", category: "framework", aliases: [] },
+  { canonical: "Spring", category: "framework", aliases: ["Spring Boot"] },
+  {
+    canonical: "Ruby on Rails",
+    category: "framework",
+    aliases: ["Rails", "RoR"],
+  },
+  { canonical: "Laravel", category: "framework", aliases: [] },
+  {
+    canonical: "Tailwind CSS",
+    category: "framework",
+    aliases: ["Tailwind", "TailwindCSS"],
+  },
+  { canonical: "Redux", category: "framework", aliases: [] },
+  { canonical: "GraphQL", category: "framework", aliases: [] },
+
+  // Cloud and infrastructure
+  { canonical: "AWS", category: "cloud", aliases: ["Amazon Web Services"] },
+  { canonical: "Azure", category: "cloud", aliases: ["Microsoft Azure"] },
+  {
+    canonical: "GCP",
+    category: "cloud",
+    aliases: ["Google Cloud", "Google Cloud Platform"],
+  },
+  { canonical: "Docker", category: "cloud", aliases: [] },
+  { canonical: "Kubernetes", category: "cloud", aliases: ["K8s"] },
+  { canonical: "Terraform", category: "cloud", aliases: [] },
+  {
+    canonical: "CI/CD",
+    category: "cloud",
+    aliases: ["CICD", "Continuous Integration"],
+  },
+
+  // Databases
+  {
+    canonical: "PostgreSQL",
+    category: "database",
+    aliases: ["Postgres", "PSQL"],
+  },
+  { canonical: "MySQL", category: "database", aliases: [] },
+  { canonical: "MongoDB", category: "database", aliases: ["Mongo"] },
+  { canonical: "Redis", category: "database", aliases: [] },
+  { canonical: "SQLite", category: "database", aliases: [] },
+  {
+    canonical: "SQL Server",
+    category: "database",
+    aliases: ["MSSQL", "MS SQL"],
+  },
+
+  // Tools
+  { canonical: "Git", category: "tool", aliases: [] },
+  { canonical: "Jira", category: "tool", aliases: [] },
+  { canonical: "Figma", category: "tool", aliases: [] },
+  {
+    canonical: "REST APIs",
+    category: "tool",
+    aliases: ["REST", "RESTful", "RESTful APIs", "REST API"],
+  },
+
+  // Soft skills
+  {
+    canonical: "Communication",
+    category: "soft skill",
+    aliases: [
+      "Communication Skills",
+      "Written Communication",
+      "Verbal Communication",
+    ],
+  },
+  {
+    canonical: "Teamwork",
+    category: "soft skill",
+    aliases: ["Collaboration", "Team Player"],
+  },
+  {
+    canonical: "Leadership",
+    category: "soft skill",
+    aliases: ["Team Leadership"],
+  },
+  {
+    canonical: "Problem Solving",
+    category: "soft skill",
+    aliases: ["Problem-solving", "Analytical Skills"],
+  },
+  { canonical: "Time Management", category: "soft skill", aliases: [] },
+];
+
+// Lookup key that ignores case, whitespace, dots and hyphens, so "React.js",
+// "reactjs" and "React JS" all collide. "#" and "+" are kept for C#/C++
+export function skillKey(skill: string): string {
+  return skill.toLowerCase().replace(/[\s.\-_]+/g, "");
+}
+
+export interface SkillResolver {
+  resolve: (skill: string) => ResolvedSkill;
+  // Canonical names for a list of raw skills, de-duplicated in order
+  canonicalize: (skills: string[]) => string[];
+  matches: (a: string, b: string) => boolean;
+}
+
+export function createSkillResolver(
+  customAliases: SkillAlias[] = []
+): SkillResolver {
+  const lookup = new Map<string, ResolvedSkill>();
+
+  for (const definition of SKILL_TAXONOMY) {
+    const resolved = {
+      name: definition.canonical,
+      category: definition.category,
+    };
+    lookup.set(skillKey(definition.canonical), resolved);
+    for (const alias of definition.aliases) {
+      lookup.set(skillKey(alias), resolved);
+    }
+  }
+
+  // User aliases win over the built-in table; they may point at a built-in
+  // skill or introduce a new canonical name
+  for (const { alias, canonical, category } of customAliases) {
+    const target = lookup.get(skillKey(canonical));
+    const resolved = {
+      name: target?.name ?? canonical.trim(),
+      category: category ?? target?.category ?? null,
+    };
+    lookup.set(skillKey(alias), resolved);
+    if (!target) lookup.set(skillKey(canonical), resolved);
+  }
+
+  const resolve = (skill: string): ResolvedSkill =>
+    lookup.get(skillKey(skill)) ?? { name: skill.trim(), category: null };
+
+  return {
+    resolve,
+    canonicalize: (skills: string[]) => {
+      const seen = new Set<string>();
+      const result: string[] = [];
+      for (const skill of skills) {
+        const { name } = resolve(skill);
+        if (!seen.has(skillKey(name))) {
+          seen.add(skillKey(name));
+          result.push(name);
+        }
+      }
+      return result;
+    },
+    matches: (a: string, b: string) =>
+      skillKey(resolve(a).name) === skillKey(resolve(b).name),
+  };
+}
+
+export const defaultSkillResolver = createSkillResolver();
+
+export function getSkillCategoryColor(category: SkillCategory | null): string {
+  return (
+    SKILL_CATEGORIES.find((c) => c.value === category)?.color ??
+    "bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-800"
+  );
+}
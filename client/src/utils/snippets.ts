@@ -0,0 +1,133 @@
+import type {
+  ExtractedField,
+  ExtractedJobData,
+  ProposalSnippet,
+  SnippetCondition,
+  SnippetOperator,
+} from "../types/index.js";
+import { normalizeExperienceLevel } from "./experience";
+import { defaultSkillResolver, type SkillResolver } from "./skillTaxonomy";
+import { EXTRACTED_FIELDS } from "./sourceSpans";
+
+export const SNIPPET_OPERATORS: { value: SnippetOperator; label: string }[] = [
+  { value: "contains", label: "contains" },
+  { value: "notContains", label: "doesn't contain" },
+  { value: "is", label: "is" },
+  { value: "isNot", label: "is not" },
+];
+
+export const DEFAULT_SNIPPETS: ProposalSnippet[] = [
+  {
+    id: "snippet-react",
+    name: "React experience",
+    text: "I have built and maintained production React applications, from component libraries to data-heavy dashboards.",
+    conditions: [{ field: "skills", operator: "contains", value: "React" }],
+    match: "all",
+  },
+  {
+    id: "snippet-senior",
+    name: "Senior ownership",
+    text: "I'm used to owning features end to end, mentoring other developers and making architecture calls.",
+    conditions: [{ field: "experienceLevel", operator: "is", value: "Senior" }],
+    match: "all",
+  },
+  {
+    id: "snippet-availability",
+    name: "Availability",
+    text: "I can start within a week and overlap with your working hours.",
+    conditions: [],
+    match: "all",
+  },
+  {
+    id: "snippet-rate",
+    name: "Rate statement",
+    text: "My rate is flexible for the right project; happy to discuss a fixed price for well-defined milestones.",
+    conditions: [{ field: "salaryRange", operator: "is", value: "" }],
+    match: "all",
+  },
+];
+
+// Does the field hold the value? Skills go through the skill taxonomy so
+// "React" also matches "React.js", and experience levels compare on one
+// scale so "Senior" matches "Sr."
+function fieldHas(
+  field: ExtractedField,
+  extracted: ExtractedJobData,
+  value: string,
+  exact: boolean,
+  resolver: SkillResolver
+): boolean {
+  const wanted = value.trim().toLowerCase();
+  if (field === "skills") {
+    // A list contains a skill, not a substring: "Java" isn't "JavaScript"
+    if (!wanted) return extracted.skills.length === 0;
+    return extracted.skills.some((skill) => resolver.matches(skill, value));
+  }
+
+  const actual = (extracted[field] ?? "").trim().toLowerCase();
+  if (field === "experienceLevel" && exact) {
+    const level = normalizeExperienceLevel(value);
+    if (level) return normalizeExperienceLevel(actual) === level;
+  }
+  return exact ? actual === wanted : actual.includes(wanted);
+}
+
+export function evaluateCondition(
+  condition: SnippetCondition,
+  extracted: ExtractedJobData,
+  resolver: SkillResolver = defaultSkillResolver
+): boolean {
+  const { field, operator, value } = condition;
+  switch (operator) {
+    case "contains":
+      return fieldHas(field, extracted, value, false, resolver);
+    case "notContains":
+      return !fieldHas(field, extracted, value, false, resolver);
+    case "is":
+      return fieldHas(field, extracted, value, true, resolver);
+    case "isNot":
+      return !fieldHas(field, extracted, value, true, resolver);
+  }
+}
+
+export interface SnippetResult {
+  snippet: ProposalSnippet;
+  fires: boolean;
+  // Which of the snippet's conditions hold, in order
+  results: boolean[];
+}
+
+/**
+ * Evaluate every snippet's rules against a job. Snippets keep their library
+ * order, so firing ones can be inserted as listed.
+ */
+export function evaluateSnippets(
+  snippets: ProposalSnippet[],
+  extracted: ExtractedJobData,
+  resolver: SkillResolver = defaultSkillResolver
+): SnippetResult[] {
+  return snippets.map((snippet) => {
+    const results = snippet.conditions.map((condition) =>
+      evaluateCondition(condition, extracted, resolver)
+    );
+    const fires =
+      results.length === 0 ||
+      (snippet.match === "all"
+        ? results.every(Boolean)
+        : results.some(Boolean));
+    return { snippet, fires, results };
+  });
+}
+
+// "skills contains React", for the preview
+export function describeCondition(condition: SnippetCondition): string {
+  const field =
+    EXTRACTED_FIELDS.find((f) => f.field === condition.field)?.label ??
+    condition.field;
+  const operator =
+    SNIPPET_OPERATORS.find((o) => o.value === condition.operator)?.label ??
+    condition.operator;
+  return `${field.toLowerCase()} ${operator} ${
+    condition.value.trim() ? `"${condition.value.trim()}"` : "empty"
+  }`;
+}
@@ -0,0 +1,150 @@
+import type { ExtractedField, ExtractedJobData } from "../types/index.js";
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+  field: ExtractedField;
+}
+
+// Fields shown side by side with the original posting, in display order
+export const EXTRACTED_FIELDS: { field: ExtractedField; label: string }[] = [
+  { field: "title", label: "Title" },
+  { field: "company", label: "Company" },
+  { field: "location", label: "Location" },
+  { field: "experienceLevel", label: "Experience" },
+  { field: "salaryRange", label: "Salary" },
+  { field: "skills", label: "Skills" },
+  { field: "descriptionSummary", label: "Summary" },
+];
+
+// Occurrences of a skill beyond this are noise rather than provenance
+const MAX_SPANS_PER_VALUE = 3;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const words = (value: string) => value.match(/[\p{L}\p{N}+#]+/gu) ?? [];
+
+// Matches the value's words in order, whatever punctuation or whitespace
+// sits between them ("$50k - $70k" finds "$50k-$70k")
+function phrasePattern(value: string): RegExp | null {
+  const parts = words(value).map(escapeRegExp);
+  if (parts.length === 0) return null;
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])${parts.join("[^\\p{L}\\p{N}]+")}(?![\\p{L}\\p{N}])`,
+    "giu"
+  );
+}
+
+function findValue(
+  text: string,
+  value: string,
+  field: ExtractedField
+): SourceSpan[] {
+  const pattern = phrasePattern(value);
+  if (!pattern) return [];
+
+  const spans: SourceSpan[] = [];
+  for (const match of text.matchAll(pattern)) {
+    spans.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      field,
+    });
+    if (spans.length >= MAX_SPANS_PER_VALUE) break;
+  }
+  if (spans.length > 0) return spans;
+
+  // Reworded values: fall back to the line sharing most of the value's
+  // words, if it shares at least half of them
+  const valueWords = new Set(words(value.toLowerCase()));
+  if (valueWords.size < 2) return [];
+  let best: { start: number; end: number; shared: number } | null = null;
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    const shared = new Set(
+      words(line.toLowerCase()).filter((word) => valueWords.has(word))
+    ).size;
+    if (shared > (best?.shared ?? 0)) {
+      best = { start: offset, end: offset + line.length, shared };
+    }
+    offset += line.length + 1;
+  }
+  return best && best.shared * 2 >= valueWords.size
+    ? [{ start: best.start, end: best.end, field }]
+    : [];
+}
+
+/**
+ * Where in the original posting each extracted field appears to come from.
+ * The summary is generated rather than copied, so it has no spans.
+ */
+export function findSourceSpans(
+  text: string,
+  extracted: ExtractedJobData
+): SourceSpan[] {
+  const spans: SourceSpan[] = [];
+  for (const { field } of EXTRACTED_FIELDS) {
+    if (field === "descriptionSummary") continue;
+    if (field === "skills") {
+      for (const skill of extracted.skills) {
+        spans.push(...findValue(text, skill, field));
+      }
+    } else if (extracted[field]) {
+      spans.push(...findValue(text, extracted[field], field));
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+export interface TextSegment {
+  text: string;
+  // Fields whose spans cover this segment
+  fields: ExtractedField[];
+}
+
+/**
+ * Cut the text at every span boundary so overlapping spans can be rendered
+ * as flat segments.
+ */
+export function segmentText(text: string, spans: SourceSpan[]): TextSegment[] {
+  const boundaries = [
+    ...new Set([0, text.length, ...spans.flatMap((s) => [s.start, s.end])]),
+  ].sort((a, b) => a - b);
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const fields = [
+      ...new Set(
+        spans
+          .filter((span) => span.start <= start && span.end >= end)
+          .map((span) => span.field)
+      ),
+    ];
+    segments.push({ text: text.slice(start, end), fields });
+  }
+  return segments;
+}
+
+/**
+ * The extraction as the AI returned it. The server serializes with
+ * PascalCase keys, so keys are normalized to camelCase.
+ */
+export function parseExtractedJson(
+  json: string
+): Partial<ExtractedJobData> | null {
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (typeof raw !== "object" || raw === null) return null;
+    return Object.fromEntries(
+      Object.entries(raw).map(([key, value]) => [
+        key.charAt(0).toLowerCase() + key.slice(1),
+        value,
+      ])
+    ) as Partial<ExtractedJobData>;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,36 @@
+export interface SseEvent {
+  // "message" when the event has no "event:" line
+  event: string;
+  data: string;
+}
+
+/**
+ * Complete Server-Sent Events in the buffer, and the trailing partial event
+ * to prepend to the next chunk. Comments and unknown fields are ignored.
+ */
+export function parseSseEvents(buffer: string): {
+  events: SseEvent[];
+  rest: string;
+} {
+  // A lone "\r" may be the first half of a "\r\n" split across chunks, so
+  // only full "\r\n" pairs are normalized
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+
+  const events: SseEvent[] = [];
+  for (const block of blocks) {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (!line || line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const name = colon === -1 ? line : line.slice(0, colon);
+      // A single space after the colon is part of the syntax, not the value
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (name === "event") event = value;
+      else if (name === "data") data.push(value);
+    }
+    if (data.length > 0) events.push({ event, data: data.join("\n") });
+  }
+  return { events, rest };
+}
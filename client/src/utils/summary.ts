@@ -0,0 +1,29 @@
+export interface SummarySection {
+  // Section name such as "Responsibilities", or null for a plain paragraph
+  header: string | null;
+  content: string;
+}
+
+/**
+ * Split an AI summary into its sections. The generator emits either
+ * "**Header:** text" or "Header: text" blocks separated by newlines.
+ */
+export function parseSummarySections(summary: string): SummarySection[] {
+  const sections = summary.split(
+    /\n(?=\*\*|\b(?:Overview|Responsibilities|Requirements|Benefits|Company|Role)\b:)/i
+  );
+
+  return sections.flatMap((section): SummarySection[] => {
+    const trimmed = section.trim();
+    if (!trimmed) return [];
+
+    // Check if it's a section header
+    const headerMatch = trimmed.match(/^(\*\*)?([A-Za-z\s]+):(\*\*)?\s*(.*)$/);
+    if (headerMatch) {
+      const [, , header, , content] = headerMatch;
+      return [{ header: header.trim(), content: content.trim() }];
+    }
+
+    return [{ header: null, content: trimmed }];
+  });
+}
@@ -0,0 +1,30 @@
+import type { Job } from "../types/index.js";
+import type { CountEntry } from "./insights";
+
+// Tags are compared and stored lowercase with single spaces, without a
+// leading "#"
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#+/, "").replace(/\s+/g, " ").toLowerCase();
+
+// Normalized, de-duplicated tags, in the order first given
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+// Comma-separated user input ("remote, q4 , #urgent") as tags
+export const parseTagInput = (input: string) => normalizeTags(input.split(","));
+
+/**
+ * How many of the jobs carry each tag, most used first.
+ */
+export function getTagCounts(jobs: Job[]): CountEntry[] {
+  const counts = new Map<string, number>();
+  for (const job of jobs) {
+    for (const tag of job.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,154 @@
+import type {
+  DashboardState,
+  SortField,
+  SortOrder,
+} from "../store/useJobStore";
+import { EXPERIENCE_LEVELS, type ExperienceLevel } from "./experience";
+import { LOCATION_TYPES, type LocationType } from "./location";
+
+const SORT_FIELDS: SortField[] = [
+  "createdAt",
+  "title",
+  "company",
+  "experienceLevel",
+  "salary",
+  "match",
+  "relevance",
+];
+
+// Query string parameters the dashboard owns
+const DASHBOARD_PARAMS = [
+  "q",
+  "level",
+  "loc",
+  "type",
+  "skill",
+  "match",
+  "min",
+  "max",
+  "days",
+  "tag",
+  "collection",
+  "sort",
+  "order",
+  "page",
+  "per",
+  "job",
+];
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const parseList = <T extends string>(
+  value: string | null,
+  allowed: { value: T }[]
+): T[] =>
+  (value ?? "")
+    .split(",")
+    .filter((item): item is T => allowed.some((a) => a.value === item));
+
+/**
+ * Query string for the dashboard state, leaving out anything at its default
+ * so links stay short. Includes the leading "?" unless empty.
+ */
+export function dashboardToSearch(
+  state: DashboardState,
+  defaults: DashboardState
+): string {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (filters.searchQuery) params.set("q", filters.searchQuery);
+  if (filters.experienceLevels.length > 0) {
+    params.set("level", filters.experienceLevels.join(","));
+  }
+  if (filters.location) params.set("loc", filters.location);
+  if (filters.locationTypes.length > 0) {
+    params.set("type", filters.locationTypes.join(","));
+  }
+  for (const skill of filters.skills) params.append("skill", skill);
+  if (filters.skills.length > 1 && filters.skillMatch === "all") {
+    params.set("match", "all");
+  }
+  if (filters.minSalary != null) params.set("min", String(filters.minSalary));
+  if (filters.maxSalary != null) params.set("max", String(filters.maxSalary));
+  if (filters.postedWithinDays != null) {
+    params.set("days", String(filters.postedWithinDays));
+  }
+  for (const tag of filters.tags) params.append("tag", tag);
+  if (filters.collectionId) params.set("collection", filters.collectionId);
+
+  if (state.sortField !== defaults.sortField) {
+    params.set("sort", state.sortField);
+  }
+  if (state.sortOrder !== defaults.sortOrder) {
+    params.set("order", state.sortOrder);
+  }
+  if (state.currentPage !== defaults.currentPage) {
+    params.set("page", String(state.currentPage));
+  }
+  if (state.itemsPerPage !== defaults.itemsPerPage) {
+    params.set("per", String(state.itemsPerPage));
+  }
+  if (state.expandedJobId !== null) {
+    params.set("job", String(state.expandedJobId));
+  }
+
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+export function hasDashboardParams(search: string): boolean {
+  const params = new URLSearchParams(search);
+  return DASHBOARD_PARAMS.some((name) => params.has(name));
+}
+
+/**
+ * Dashboard state described by a query string. Missing or invalid values
+ * fall back to the defaults.
+ */
+export function searchToDashboard(
+  search: string,
+  defaults: DashboardState
+): DashboardState {
+  const params = new URLSearchParams(search);
+  const sort = params.get("sort") as SortField | null;
+  const order = params.get("order");
+  const page = parseNumber(params.get("page"));
+  const perPage = parseNumber(params.get("per"));
+
+  return {
+    filters: {
+      ...defaults.filters,
+      searchQuery: params.get("q") ?? "",
+      experienceLevels: parseList<ExperienceLevel>(
+        params.get("level"),
+        EXPERIENCE_LEVELS
+      ),
+      location: params.get("loc") ?? "",
+      locationTypes: parseList<LocationType>(
+        params.get("type"),
+        LOCATION_TYPES
+      ),
+      skills: params.getAll("skill").filter((skill) => skill.trim()),
+      skillMatch: params.get("match") === "all" ? "all" : "any",
+      minSalary: parseNumber(params.get("min")),
+      maxSalary: parseNumber(params.get("max")),
+      postedWithinDays: parseNumber(params.get("days")),
+      tags: params.getAll("tag").filter((tag) => tag.trim()),
+      collectionId: params.get("collection") || null,
+    },
+    sortField: sort && SORT_FIELDS.includes(sort) ? sort : defaults.sortField,
+    sortOrder:
+      order === "asc" || order === "desc"
+        ? (order as SortOrder)
+        : defaults.sortOrder,
+    currentPage: page && page >= 1 ? Math.floor(page) : defaults.currentPage,
+    itemsPerPage:
+      perPage && perPage >= 1 ? Math.floor(perPage) : defaults.itemsPerPage,
+    expandedJobId: parseNumber(params.get("job")),
+  };
+}